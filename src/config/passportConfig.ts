@@ -12,7 +12,7 @@ export function initializePassport(): void {
         clientID: process.env.GITHUB_CLIENT_ID || '',
         clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
         callbackURL: process.env.GITHUB_CALLBACK_URL || '',
-        scope: ['user:email', 'public_repo'],
+        scope: ['user:email', 'public_repo', 'admin:repo_hook'],
       },
       async (
         accessToken: string,
@@ -31,6 +31,56 @@ export const ERRORS: Record<string, ErrorDefinition> = {
     status: 401,
     message: 'Unauthorized access',
   },
+  INVALID_REFRESH_TOKEN: {
+    code: 'INVALID_REFRESH_TOKEN',
+    status: 401,
+    message: 'Invalid or expired refresh token',
+  },
+  REFRESH_TOKEN_REUSED: {
+    code: 'REFRESH_TOKEN_REUSED',
+    status: 401,
+    message: 'Refresh token was already used; the session has been revoked',
+  },
+  SESSION_REVOKED: {
+    code: 'SESSION_REVOKED',
+    status: 401,
+    message: 'Session has been revoked',
+  },
+  SESSION_NOT_FOUND: {
+    code: 'SESSION_NOT_FOUND',
+    status: 404,
+    message: 'Session not found',
+  },
+  INVALID_TWO_FACTOR_CODE: {
+    code: 'INVALID_TWO_FACTOR_CODE',
+    status: 401,
+    message: 'Invalid two-factor authentication code',
+  },
+  INVALID_CHALLENGE_TOKEN: {
+    code: 'INVALID_CHALLENGE_TOKEN',
+    status: 401,
+    message: 'Invalid or expired login challenge; sign in again',
+  },
+  TWO_FACTOR_ALREADY_ENABLED: {
+    code: 'TWO_FACTOR_ALREADY_ENABLED',
+    status: 409,
+    message: 'Two-factor authentication is already enabled',
+  },
+  TWO_FACTOR_NOT_ENABLED: {
+    code: 'TWO_FACTOR_NOT_ENABLED',
+    status: 409,
+    message: 'Two-factor authentication is not enabled',
+  },
+  TWO_FACTOR_SETUP_REQUIRED: {
+    code: 'TWO_FACTOR_SETUP_REQUIRED',
+    status: 409,
+    message: 'Start two-factor setup before verifying a code',
+  },
+  TWO_FACTOR_LOCKED: {
+    code: 'TWO_FACTOR_LOCKED',
+    status: 429,
+    message: 'Too many failed two-factor attempts; try again later',
+  },
 
   // Validation errors
   VALIDATION_ERROR: {
@@ -123,6 +173,91 @@ export const ERRORS: Record<string, ErrorDefinition> = {
     status: 502,
     message: 'Deployment failed',
   },
+  DEPLOYMENT_NOT_FOUND: {
+    code: 'DEPLOYMENT_NOT_FOUND',
+    status: 404,
+    message: 'Deployment not found',
+  },
+  PROVIDER_FEATURE_UNSUPPORTED: {
+    code: 'PROVIDER_FEATURE_UNSUPPORTED',
+    status: 400,
+    message: 'This deployment provider does not support the requested operation',
+  },
+  DEPLOYMENT_NOT_ROLLBACKABLE: {
+    code: 'DEPLOYMENT_NOT_ROLLBACKABLE',
+    status: 409,
+    message: 'Only successful deployments with a provider deployment id can be rolled back to',
+  },
+
+  // Environment variable errors
+  ENV_VAR_NOT_FOUND: {
+    code: 'ENV_VAR_NOT_FOUND',
+    status: 404,
+    message: 'Environment variable not found',
+  },
+  ENV_VAR_EXISTS: {
+    code: 'ENV_VAR_EXISTS',
+    status: 409,
+    message: 'Environment variable already exists for this environment',
+  },
+  ENV_SYNC_FAILED: {
+    code: 'ENV_SYNC_FAILED',
+    status: 502,
+    message: 'Environment variables could not be synced to the provider; the change was not saved',
+  },
+
+  // Custom domain errors
+  DOMAIN_NOT_FOUND: {
+    code: 'DOMAIN_NOT_FOUND',
+    status: 404,
+    message: 'Domain not found on this project',
+  },
+  DOMAIN_EXISTS: {
+    code: 'DOMAIN_EXISTS',
+    status: 409,
+    message: 'Domain is already attached to a project',
+  },
+
+  // Webhook delivery errors
+  WEBHOOK_DELIVERY_NOT_FOUND: {
+    code: 'WEBHOOK_DELIVERY_NOT_FOUND',
+    status: 404,
+    message: 'Webhook delivery not found',
+  },
+  WEBHOOK_DELIVERY_NOT_REPLAYABLE: {
+    code: 'WEBHOOK_DELIVERY_NOT_REPLAYABLE',
+    status: 409,
+    message: 'Only deliveries with a valid signature can be replayed',
+  },
+
+  // Deploy queue errors
+  QUEUE_ITEM_NOT_FOUND: {
+    code: 'QUEUE_ITEM_NOT_FOUND',
+    status: 404,
+    message: 'Queued deploy not found',
+  },
+  QUEUE_ITEM_NOT_CANCELLABLE: {
+    code: 'QUEUE_ITEM_NOT_CANCELLABLE',
+    status: 409,
+    message: 'Only queued deploys can be cancelled',
+  },
+  DEPLOY_IN_PROGRESS: {
+    code: 'DEPLOY_IN_PROGRESS',
+    status: 409,
+    message: 'Another deploy is in progress for this project; try again once it finishes',
+  },
+
+  // Background job errors
+  DEAD_JOB_NOT_FOUND: {
+    code: 'DEAD_JOB_NOT_FOUND',
+    status: 404,
+    message: 'Dead job not found',
+  },
+  DEAD_JOB_ALREADY_RETRIED: {
+    code: 'DEAD_JOB_ALREADY_RETRIED',
+    status: 409,
+    message: 'Dead job has already been retried',
+  },
 
   // Rate limiting
   TOO_MANY_REQUESTS: {
@@ -130,6 +265,11 @@ export const ERRORS: Record<string, ErrorDefinition> = {
     status: 429,
     message: 'Too many requests, please try again later',
   },
+  TOO_MANY_STREAMS: {
+    code: 'TOO_MANY_STREAMS',
+    status: 429,
+    message: 'Too many open event streams',
+  },
 
   // Server errors
   INTERNAL_ERROR: {
@@ -148,6 +288,32 @@ export const ERRORS: Record<string, ErrorDefinition> = {
 export const PROJECT_NOT_FOUND = ERRORS.PROJECT_NOT_FOUND.message;
 export const INVALID_GITHUB_REPO = ERRORS.INVALID_GITHUB_REPO.message;
 export const DEPLOYMENT_FAILED = ERRORS.DEPLOYMENT_FAILED.message;
+export const DEPLOYMENT_NOT_FOUND = ERRORS.DEPLOYMENT_NOT_FOUND.message;
+export const DEPLOYMENT_NOT_ROLLBACKABLE = ERRORS.DEPLOYMENT_NOT_ROLLBACKABLE.message;
+export const PROVIDER_FEATURE_UNSUPPORTED = ERRORS.PROVIDER_FEATURE_UNSUPPORTED.message;
+export const ENV_VAR_NOT_FOUND = ERRORS.ENV_VAR_NOT_FOUND.message;
+export const ENV_VAR_EXISTS = ERRORS.ENV_VAR_EXISTS.message;
+export const ENV_SYNC_FAILED = ERRORS.ENV_SYNC_FAILED.message;
+export const DOMAIN_NOT_FOUND = ERRORS.DOMAIN_NOT_FOUND.message;
+export const DOMAIN_EXISTS = ERRORS.DOMAIN_EXISTS.message;
+export const WEBHOOK_DELIVERY_NOT_FOUND = ERRORS.WEBHOOK_DELIVERY_NOT_FOUND.message;
+export const WEBHOOK_DELIVERY_NOT_REPLAYABLE = ERRORS.WEBHOOK_DELIVERY_NOT_REPLAYABLE.message;
+export const QUEUE_ITEM_NOT_FOUND = ERRORS.QUEUE_ITEM_NOT_FOUND.message;
+export const QUEUE_ITEM_NOT_CANCELLABLE = ERRORS.QUEUE_ITEM_NOT_CANCELLABLE.message;
+export const DEPLOY_IN_PROGRESS = ERRORS.DEPLOY_IN_PROGRESS.message;
+export const DEAD_JOB_NOT_FOUND = ERRORS.DEAD_JOB_NOT_FOUND.message;
+export const DEAD_JOB_ALREADY_RETRIED = ERRORS.DEAD_JOB_ALREADY_RETRIED.message;
+export const TOO_MANY_STREAMS = ERRORS.TOO_MANY_STREAMS.message;
+export const INVALID_REFRESH_TOKEN = ERRORS.INVALID_REFRESH_TOKEN.message;
+export const REFRESH_TOKEN_REUSED = ERRORS.REFRESH_TOKEN_REUSED.message;
+export const SESSION_REVOKED = ERRORS.SESSION_REVOKED.message;
+export const SESSION_NOT_FOUND = ERRORS.SESSION_NOT_FOUND.message;
+export const INVALID_TWO_FACTOR_CODE = ERRORS.INVALID_TWO_FACTOR_CODE.message;
+export const INVALID_CHALLENGE_TOKEN = ERRORS.INVALID_CHALLENGE_TOKEN.message;
+export const TWO_FACTOR_ALREADY_ENABLED = ERRORS.TWO_FACTOR_ALREADY_ENABLED.message;
+export const TWO_FACTOR_NOT_ENABLED = ERRORS.TWO_FACTOR_NOT_ENABLED.message;
+export const TWO_FACTOR_SETUP_REQUIRED = ERRORS.TWO_FACTOR_SETUP_REQUIRED.message;
+export const TWO_FACTOR_LOCKED = ERRORS.TWO_FACTOR_LOCKED.message;
 export const INSUFFICIENT_PERMISSIONS = ERRORS.INSUFFICIENT_PERMISSIONS.message;
 export const PROJECT_NAME_EXISTS = ERRORS.PROJECT_NAME_EXISTS.message;
 export const VALIDATION_ERROR = 'VALIDATION_ERROR';
@@ -168,9 +334,4 @@ export const WEBHOOK_SIGNATURE_INVALID = 'Webhook signature verification failed'
 export const WEBHOOK_PAYLOAD_INVALID = 'Invalid webhook payload format';
 export const WEBHOOK_EVENT_TYPE_INVALID = 'Unsupported webhook event type';
 export const REDEPLOY_TRIGGERED = 'Redeploy triggered successfully';
-export const PROJECT_NOT_FOUND = 'Project not found';
-export const INVALID_GITHUB_REPO = 'Invalid GitHub repository format';
-export const DEPLOYMENT_FAILED = 'Deployment failed';
-export const INSUFFICIENT_PERMISSIONS =
-  'You do not have permission to access this project';
-export const PROJECT_NAME_EXISTS = 'Project name already exists';
+export const REDEPLOY_QUEUED = 'Redeploy queued';
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { isSessionActive } from '../services/tokenService';
 
 declare global {
   namespace Express {
@@ -8,18 +9,35 @@ declare global {
         id: string;
         email: string;
         username: string;
+        /** Session the access token belongs to */
+        sessionId: string;
+        /** When the access token expires, in ms since the epoch */
+        expiresAt?: number;
       };
     }
   }
 }
 
+/**
+ * EventSource cannot set headers, so event streams may pass the JWT as
+ * ?access_token= instead
+ */
+function getStreamToken(req: Request): string | undefined {
+  const accept = req.headers.accept || '';
+  const token = req.query.access_token;
+  if (req.method !== 'GET' || !accept.includes('text/event-stream') || typeof token !== 'string') {
+    return undefined;
+  }
+  return token;
+}
+
 export function authenticateToken(
   req: Request,
   res: Response,
   next: NextFunction
 ): void {
   const authHeader = req.headers.authorization;
-  const token = authHeader && authHeader.split(' ')[1]; // "Bearer <token>"
+  const token = (authHeader && authHeader.split(' ')[1]) || getStreamToken(req); // "Bearer <token>"
 
   if (!token) {
     res.status(401).json({
@@ -40,20 +58,9 @@ export function authenticateToken(
     return;
   }
 
+  let decoded: { id: string; email: string; username: string; sid?: string; exp?: number };
   try {
-    const decoded = jwt.verify(token, jwtSecret) as {
-      id: string;
-      email: string;
-      username: string;
-    };
-
-    req.authUser = {
-      id: decoded.id,
-      email: decoded.email,
-      username: decoded.username,
-    };
-
-    next();
+    decoded = jwt.verify(token, jwtSecret) as typeof decoded;
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
       res.status(401).json({
@@ -78,5 +85,72 @@ export function authenticateToken(
       code: 'SERVER_ERROR',
       message: 'Authentication failed',
     });
+    return;
+  }
+
+  // Tokens issued before sessions existed cannot be revoked, so they are not accepted
+  if (!decoded.sid) {
+    res.status(401).json({
+      status: 'error',
+      code: 'INVALID_TOKEN',
+      message: 'Invalid access token',
+    });
+    return;
   }
+
+  isSessionActive(decoded.sid, decoded.id)
+    .then((active) => {
+      if (!active) {
+        res.status(401).json({
+          status: 'error',
+          code: 'SESSION_REVOKED',
+          message: 'Session has been revoked',
+        });
+        return;
+      }
+
+      req.authUser = {
+        id: decoded.id,
+        email: decoded.email,
+        username: decoded.username,
+        sessionId: decoded.sid as string,
+        expiresAt: decoded.exp ? decoded.exp * 1000 : undefined,
+      };
+
+      next();
+    })
+    .catch((error) => {
+      console.error('Session lookup failed:', error);
+      res.status(500).json({
+        status: 'error',
+        code: 'SERVER_ERROR',
+        message: 'Authentication failed',
+      });
+    });
+}
+
+/**
+ * Allow only users whose email is listed in ADMIN_EMAILS (comma-separated).
+ * Must run after authenticateToken.
+ */
+export function requireAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!req.authUser || !adminEmails.includes(req.authUser.email.toLowerCase())) {
+    res.status(403).json({
+      status: 'error',
+      code: 'INSUFFICIENT_PERMISSIONS',
+      message: 'Administrator access required',
+    });
+    return;
+  }
+
+  next();
 }
@@ -0,0 +1,20 @@
+import { Request } from 'express';
+import { IncomingMessage, ServerResponse } from 'http';
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * body-parser `verify` hook that keeps the exact request bytes for webhook
+ * routes, where signatures are computed over the body as sent.
+ */
+export function captureRawBody(req: IncomingMessage, res: ServerResponse, buf: Buffer): void {
+  if (req.url && req.url.startsWith('/webhook/')) {
+    (req as Request).rawBody = Buffer.from(buf);
+  }
+}
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { info } from '../utils/logger';
+import { touchSession } from '../services/tokenService';
 import crypto from 'crypto';
 
 declare global {
@@ -11,6 +12,14 @@ declare global {
   }
 }
 
+/** Event streams may carry the JWT in the query string; keep it out of logs */
+function redactQuery(query: Request['query']): Request['query'] {
+  if (!('access_token' in query)) {
+    return query;
+  }
+  return { ...query, access_token: '[redacted]' };
+}
+
 export function requestLogger(req: Request, res: Response, next: NextFunction): void {
   if (req.path === '/health') {
     return next();
@@ -25,7 +34,7 @@ export function requestLogger(req: Request, res: Response, next: NextFunction):
     requestId: req.requestId,
     method: req.method,
     path: req.path,
-    query: req.query,
+    query: redactQuery(req.query),
     ip: req.ip || req.socket.remoteAddress,
   }, userId);
 
@@ -44,5 +53,20 @@ export function requestLogger(req: Request, res: Response, next: NextFunction):
     return originalSend.call(this, body);
   };
 
+  // authenticateToken runs later in the chain, so the session is known once the response is done
+  res.on('finish', () => {
+    const sessionId = req.authUser?.sessionId;
+    if (!sessionId) {
+      return;
+    }
+
+    touchSession(sessionId, {
+      userAgent: req.headers['user-agent'],
+      ip: req.ip || req.socket.remoteAddress,
+    }).catch((error) => {
+      console.error('Failed to record session activity:', error);
+    });
+  });
+
   next();
 }
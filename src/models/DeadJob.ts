@@ -0,0 +1,71 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+/**
+ * Job that failed on every attempt, kept for inspection and manual retry
+ */
+export interface IDeadJob extends Document {
+  jobId: Types.ObjectId;
+  type: string;
+  payload: any;
+  attempts: number;
+  maxAttempts: number;
+  error: string;
+  failedAt: Date;
+  retriedAt?: Date;
+  /** Job created by the retry */
+  retryJobId?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const deadJobSchema = new Schema<IDeadJob>(
+  {
+    jobId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    attempts: {
+      type: Number,
+      required: true,
+    },
+    maxAttempts: {
+      type: Number,
+      required: true,
+    },
+    error: {
+      type: String,
+      required: true,
+    },
+    failedAt: {
+      type: Date,
+      required: true,
+    },
+    retriedAt: {
+      type: Date,
+    },
+    retryJobId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Job',
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+deadJobSchema.index({ failedAt: -1 });
+deadJobSchema.index({ type: 1, failedAt: -1 });
+
+const DeadJob: Model<IDeadJob> =
+  mongoose.models.DeadJob || mongoose.model<IDeadJob>('DeadJob', deadJobSchema);
+
+export default DeadJob;
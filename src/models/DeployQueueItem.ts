@@ -0,0 +1,125 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { DeploymentTrigger } from './Deployment';
+
+export type DeployQueueState =
+  | 'queued'
+  | 'running'
+  | 'deployed'
+  | 'failed'
+  | 'superseded'
+  | 'cancelled';
+
+export const DEPLOY_QUEUE_STATES: DeployQueueState[] = [
+  'queued',
+  'running',
+  'deployed',
+  'failed',
+  'superseded',
+  'cancelled',
+];
+
+/** Finished items are kept for 7 days */
+const FINISHED_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Production redeploy waiting in (or taken from) a project's deploy queue.
+ * A project has at most one 'running' item; when it finishes, the newest
+ * queued item runs and older queued items are superseded.
+ */
+export interface IDeployQueueItem extends Document {
+  projectId: Types.ObjectId;
+  userId: Types.ObjectId;
+  trigger: DeploymentTrigger;
+  branch: string;
+  commitSha?: string;
+  commitMessage?: string;
+  status: DeployQueueState;
+  /** Not started before this time; pushed back by newer items in a burst */
+  runAfter: Date;
+  deploymentId?: Types.ObjectId;
+  /** Item that replaced this one while it was queued */
+  supersededBy?: Types.ObjectId;
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const deployQueueItemSchema = new Schema<IDeployQueueItem>(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    trigger: {
+      type: String,
+      required: true,
+      enum: ['create', 'webhook', 'manual', 'rollback'],
+    },
+    branch: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    commitSha: {
+      type: String,
+      trim: true,
+    },
+    commitMessage: {
+      type: String,
+      maxlength: 1000,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: DEPLOY_QUEUE_STATES,
+      default: 'queued',
+    },
+    runAfter: {
+      type: Date,
+      required: true,
+    },
+    deploymentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Deployment',
+    },
+    supersededBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'DeployQueueItem',
+    },
+    error: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    finishedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+deployQueueItemSchema.index({ projectId: 1, status: 1, createdAt: -1 });
+deployQueueItemSchema.index({ status: 1, runAfter: 1 });
+// Enforces a single in-flight deploy per project, even across processes
+deployQueueItemSchema.index(
+  { projectId: 1 },
+  { unique: true, partialFilterExpression: { status: 'running' } }
+);
+deployQueueItemSchema.index({ finishedAt: 1 }, { expireAfterSeconds: FINISHED_TTL_SECONDS });
+
+const DeployQueueItem: Model<IDeployQueueItem> =
+  mongoose.models.DeployQueueItem ||
+  mongoose.model<IDeployQueueItem>('DeployQueueItem', deployQueueItemSchema);
+
+export default DeployQueueItem;
@@ -0,0 +1,179 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export type DeploymentTrigger = 'create' | 'webhook' | 'manual' | 'rollback';
+export type DeploymentState = 'deploying' | 'deployed' | 'failed';
+
+export interface DeploymentStatusChange {
+  status: DeploymentState;
+  at: Date;
+}
+
+export interface IDeployment extends Document {
+  projectId: Types.ObjectId;
+  userId: Types.ObjectId;
+  trigger: DeploymentTrigger;
+  commitSha?: string;
+  commitMessage?: string;
+  branch: string;
+  providerDeploymentId?: string;
+  rollbackOf?: Types.ObjectId;
+  /** GitHub Deployment this build reports its status to */
+  githubDeploymentId?: number;
+  status: DeploymentState;
+  statusHistory: DeploymentStatusChange[];
+  url: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  /** Last time build log lines were copied from the provider */
+  logsSyncedAt?: Date;
+  /** Set once the finished build's full log is stored; the provider is not asked again */
+  logsComplete: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+
+  isTerminal(): boolean;
+  transitionTo(status: DeploymentState, at?: Date): boolean;
+}
+
+const TERMINAL_STATES: DeploymentState[] = ['deployed', 'failed'];
+
+const statusChangeSchema = new Schema<DeploymentStatusChange>(
+  {
+    status: {
+      type: String,
+      required: true,
+      enum: ['deploying', 'deployed', 'failed'],
+    },
+    at: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const deploymentSchema = new Schema<IDeployment>(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    trigger: {
+      type: String,
+      required: true,
+      enum: ['create', 'webhook', 'manual', 'rollback'],
+    },
+    commitSha: {
+      type: String,
+      trim: true,
+    },
+    commitMessage: {
+      type: String,
+      maxlength: 1000,
+    },
+    branch: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    providerDeploymentId: {
+      type: String,
+    },
+    rollbackOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'Deployment',
+    },
+    githubDeploymentId: {
+      type: Number,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ['deploying', 'deployed', 'failed'],
+      default: 'deploying',
+    },
+    statusHistory: {
+      type: [statusChangeSchema],
+      default: [],
+    },
+    url: {
+      type: String,
+      default: '',
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    finishedAt: {
+      type: Date,
+    },
+    durationMs: {
+      type: Number,
+    },
+    logsSyncedAt: {
+      type: Date,
+    },
+    logsComplete: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+deploymentSchema.index({ projectId: 1, createdAt: -1 });
+
+deploymentSchema.pre('validate', function (next) {
+  if (this.isNew && this.statusHistory.length === 0) {
+    this.statusHistory.push({ status: this.status, at: this.startedAt });
+  }
+  next();
+});
+
+deploymentSchema.methods.isTerminal = function (this: IDeployment): boolean {
+  return TERMINAL_STATES.includes(this.status);
+};
+
+/**
+ * Record a status change. Returns false when the deployment is already in
+ * the given state, so callers can skip saving unchanged documents.
+ */
+deploymentSchema.methods.transitionTo = function (
+  this: IDeployment,
+  status: DeploymentState,
+  at: Date = new Date()
+): boolean {
+  if (this.status === status) {
+    return false;
+  }
+
+  this.status = status;
+  this.statusHistory.push({ status, at });
+
+  if (TERMINAL_STATES.includes(status)) {
+    this.finishedAt = at;
+    this.durationMs = Math.max(0, at.getTime() - this.startedAt.getTime());
+  } else {
+    this.finishedAt = undefined;
+    this.durationMs = undefined;
+  }
+
+  return true;
+};
+
+const Deployment: Model<IDeployment> =
+  mongoose.models.Deployment ||
+  mongoose.model<IDeployment>('Deployment', deploymentSchema);
+
+export default Deployment;
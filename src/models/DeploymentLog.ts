@@ -0,0 +1,63 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['info', 'warn', 'error'];
+
+/**
+ * One build log line, copied from the provider so it can be paged and
+ * searched, and kept after the provider prunes the build
+ */
+export interface IDeploymentLog extends Document {
+  deploymentId: Types.ObjectId;
+  projectId: Types.ObjectId;
+  /** Line number within the deployment's log, from 0 */
+  seq: number;
+  timestamp: Date;
+  level: LogLevel;
+  message: string;
+}
+
+const deploymentLogSchema = new Schema<IDeploymentLog>({
+  deploymentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Deployment',
+    required: true,
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    required: true,
+    index: true,
+  },
+  seq: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  timestamp: {
+    type: Date,
+    required: true,
+  },
+  level: {
+    type: String,
+    required: true,
+    enum: LOG_LEVELS,
+    default: 'info',
+  },
+  message: {
+    type: String,
+    default: '',
+  },
+});
+
+// Also stops two concurrent syncs from storing the same line twice
+deploymentLogSchema.index({ deploymentId: 1, seq: 1 }, { unique: true });
+deploymentLogSchema.index({ deploymentId: 1, level: 1, seq: 1 });
+deploymentLogSchema.index({ deploymentId: 1, message: 'text' });
+
+const DeploymentLog: Model<IDeploymentLog> =
+  mongoose.models.DeploymentLog ||
+  mongoose.model<IDeploymentLog>('DeploymentLog', deploymentLogSchema);
+
+export default DeploymentLog;
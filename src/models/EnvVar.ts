@@ -0,0 +1,62 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { decryptToken, encryptToken } from '../services/encryptionService';
+
+export type EnvVarEnvironment = 'production' | 'preview';
+
+export const ENV_VAR_ENVIRONMENTS: EnvVarEnvironment[] = ['production', 'preview'];
+
+export interface IEnvVar extends Document {
+  projectId: Types.ObjectId;
+  key: string;
+  environment: EnvVarEnvironment;
+  value: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  getValue(): string;
+  setValue(value: string): void;
+}
+
+const envVarSchema = new Schema<IEnvVar>(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    environment: {
+      type: String,
+      required: true,
+      enum: ENV_VAR_ENVIRONMENTS,
+    },
+    // Encrypted with encryptionService, never serialized
+    value: {
+      type: String,
+      required: true,
+      select: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+envVarSchema.index({ projectId: 1, environment: 1, key: 1 }, { unique: true });
+
+envVarSchema.methods.getValue = function (this: IEnvVar): string {
+  return decryptToken(this.value);
+};
+
+envVarSchema.methods.setValue = function (this: IEnvVar, value: string): void {
+  this.value = encryptToken(value);
+};
+
+const EnvVar: Model<IEnvVar> =
+  mongoose.models.EnvVar || mongoose.model<IEnvVar>('EnvVar', envVarSchema);
+
+export default EnvVar;
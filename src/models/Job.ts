@@ -0,0 +1,91 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export type JobState = 'pending' | 'running' | 'completed';
+
+/** Completed jobs are kept for 7 days */
+const COMPLETED_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Unit of background work. A worker leases a job by setting lockedUntil;
+ * jobs whose lease runs out are picked up again by any worker.
+ */
+export interface IJob extends Document {
+  type: string;
+  payload: any;
+  /** Deduplication key; at most one pending job exists per key */
+  key?: string;
+  status: JobState;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastError?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobSchema = new Schema<IJob>(
+  {
+    type: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    key: {
+      type: String,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ['pending', 'running', 'completed'],
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      required: true,
+    },
+    runAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    lockedBy: {
+      type: String,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ status: 1, lockedUntil: 1 });
+jobSchema.index(
+  { key: 1 },
+  { unique: true, partialFilterExpression: { key: { $exists: true }, status: 'pending' } }
+);
+jobSchema.index({ completedAt: 1 }, { expireAfterSeconds: COMPLETED_TTL_SECONDS });
+
+const Job: Model<IJob> = mongoose.models.Job || mongoose.model<IJob>('Job', jobSchema);
+
+export default Job;
@@ -0,0 +1,43 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+/**
+ * Server-side record of a login challenge token. Each POST /auth/login/2fa
+ * uses up one attempt, so a challenge only allows a few code guesses; it is
+ * deleted once the login completes.
+ */
+export interface ILoginChallenge extends Document {
+  userId: Types.ObjectId;
+  attempts: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const loginChallengeSchema = new Schema<ILoginChallenge>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+loginChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginChallenge: Model<ILoginChallenge> =
+  mongoose.models.LoginChallenge ||
+  mongoose.model<ILoginChallenge>('LoginChallenge', loginChallengeSchema);
+
+export default LoginChallenge;
@@ -0,0 +1,93 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export type PreviewState = 'deploying' | 'deployed' | 'failed' | 'closed';
+
+/**
+ * Preview deployment for a pull request. One document per PR, updated with
+ * the head commit on every synchronize and marked closed when the PR closes.
+ */
+export interface IPreview extends Document {
+  projectId: Types.ObjectId;
+  userId: Types.ObjectId;
+  prNumber: number;
+  title: string;
+  branch: string;
+  commitSha: string;
+  providerDeploymentId?: string;
+  /** Provider deployments from earlier commits, torn down with the preview */
+  previousDeploymentIds: string[];
+  /** GitHub Deployment for the current head commit */
+  githubDeploymentId?: number;
+  status: PreviewState;
+  url: string;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const previewSchema = new Schema<IPreview>(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    prNumber: {
+      type: Number,
+      required: true,
+    },
+    title: {
+      type: String,
+      default: '',
+      maxlength: 500,
+    },
+    branch: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    commitSha: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    providerDeploymentId: {
+      type: String,
+    },
+    previousDeploymentIds: {
+      type: [String],
+      default: [],
+    },
+    githubDeploymentId: {
+      type: Number,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ['deploying', 'deployed', 'failed', 'closed'],
+      default: 'deploying',
+    },
+    url: {
+      type: String,
+      default: '',
+    },
+    closedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+previewSchema.index({ projectId: 1, prNumber: 1 }, { unique: true });
+
+const Preview: Model<IPreview> =
+  mongoose.models.Preview || mongoose.model<IPreview>('Preview', previewSchema);
+
+export default Preview;
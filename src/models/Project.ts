@@ -1,69 +1,385 @@
-import mongoose, { Document, Model, Schema } from 'mongoose';
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { getProvider, getProviderIds } from '../services/providers';
+import Deployment, { DeploymentTrigger, IDeployment } from './Deployment';
+import DeployQueueItem, { IDeployQueueItem } from './DeployQueueItem';
+import EnvVar from './EnvVar';
+import Preview, { IPreview } from './Preview';
+import User from './User';
+import {
+  BuildConfig,
+  DeploymentProvider,
+  DeploymentStatus,
+  DnsRecord,
+  DomainStatus,
+  EnvVarSet,
+  PreviewRequest,
+  ProviderContext,
+} from '../types';
+import {
+  createGitHubDeployment,
+  createGitHubDeploymentStatus,
+  createRepoWebhook,
+  deleteRepoWebhook,
+  GitHubDeploymentState,
+  GitHubError,
+  listRepoWebhooks,
+  RepoWebhookConfig,
+  updateRepoWebhook,
+} from '../services/githubService';
+import { getWebhookUrl } from '../utils/publicUrl';
 import { verifyGitHubSignature } from '../utils/webhookVerifier';
 import { logRedeploy } from '../utils/logger';
 
-export interface IProject extends Document {
-  name: string;
-  githubRepo: string; // full_name: 'owner/repo'
-  webhookSecret: string;
-  defaultBranch: string;
-  status: string;
-  lastDeploymentTime?: Date;
-  owner: mongoose.Types.ObjectId;
-  createdAt: Date;
-  updatedAt: Date;
-  verifyWebhookSignature(signature: string, payload: string): boolean;
-  onWebhookReceived(payload: any): Promise<void>;
-  triggerRedeploy(): Promise<void>;
-import mongoose, { Document, Model, Schema, Types } from 'mongoose';
-import CloudflareService from '../services/cloudflareService';
-import NetlifyService from '../services/netlifyService';
-import { DeploymentStatus } from '../types';
-
-export type DeploymentProvider = 'cloudflare' | 'netlify';
+export type DeploymentProviderId = string;
 export type ProjectStatus = 'deploying' | 'deployed' | 'failed';
 
+export interface RedeployOptions {
+  trigger: DeploymentTrigger;
+  branch?: string;
+  commitSha?: string;
+  commitMessage?: string;
+}
+
+export interface RecordDeploymentOptions extends RedeployOptions {
+  providerDeploymentId?: string;
+  rollbackOf?: Types.ObjectId;
+}
+
+export interface WebhookRepairResult {
+  action: 'created' | 'updated';
+  hookId: number;
+}
+
+export interface PreviewOptions extends PreviewRequest {
+  title?: string;
+}
+
+export interface ProjectDomain extends DomainStatus {
+  createdAt: Date;
+  verifiedAt?: Date;
+}
+
 export interface IProject extends Document {
   userId: Types.ObjectId;
   name: string;
   description?: string;
   githubRepo: string;
-  deploymentProvider: DeploymentProvider;
+  deploymentProvider: DeploymentProviderId;
   deploymentId: string;
   deploymentUrl: string;
   status: ProjectStatus;
   webhookSecret: string;
+  /** Id of the repository webhook installed for this project */
+  webhookId?: number;
+  defaultBranch: string;
+  buildConfig: BuildConfig;
+  domains: ProjectDomain[];
   lastDeploymentTime?: Date;
+  /** Last time the deployment status was fetched from the provider */
+  statusCheckedAt?: Date;
+  /** When the status poller next refreshes this project; unset once no build is in progress */
+  statusCheckAfter?: Date;
   createdAt: Date;
   updatedAt: Date;
 
+  verifyWebhookSignature(signature: string, payload: string | Buffer): boolean;
   getDeploymentStatus(): Promise<DeploymentStatus>;
-  triggerRedeploy(): Promise<void>;
-  getDeploymentService(): CloudflareService | NetlifyService;
+  getStoredStatus(): DeploymentStatus;
+  provisionDeployment(): Promise<void>;
+  triggerRedeploy(options: RedeployOptions): Promise<IDeployment>;
+  queueRedeploy(options: RedeployOptions): Promise<IDeployQueueItem>;
+  rollbackTo(target: IDeployment): Promise<IDeployment>;
+  updateProductionBranch(branch: string): Promise<void>;
+  syncEnvVars(): Promise<void>;
+  addDomain(hostname: string): Promise<ProjectDomain>;
+  refreshDomain(hostname: string): Promise<ProjectDomain>;
+  removeDomain(hostname: string): Promise<void>;
+  deployPreview(options: PreviewOptions): Promise<IPreview>;
+  closePreview(prNumber: number): Promise<IPreview | null>;
+  installWebhook(): Promise<number>;
+  repairWebhook(): Promise<WebhookRepairResult>;
+  removeWebhook(): Promise<void>;
+  recordDeployment(options: RecordDeploymentOptions): Promise<IDeployment>;
+  getLatestDeployment(): Promise<IDeployment | null>;
+  getDeploymentService(): DeploymentProvider;
+  getProviderContext(): Promise<ProviderContext>;
+}
+
+function normalizeProjectStatus(value: string): ProjectStatus {
+  const v = value.toLowerCase();
+  if (v === 'deployed') return 'deployed';
+  if (v === 'failed') return 'failed';
+  return 'deploying';
+}
+
+const dnsRecordSchema = new Schema<DnsRecord>(
+  {
+    type: {
+      type: String,
+      required: true,
+      enum: ['A', 'CNAME', 'TXT'],
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    value: {
+      type: String,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const domainSchema = new Schema<ProjectDomain>(
+  {
+    hostname: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    verificationStatus: {
+      type: String,
+      enum: ['pending', 'verified', 'failed'],
+      default: 'pending',
+    },
+    sslStatus: {
+      type: String,
+      enum: ['none', 'pending', 'active', 'failed'],
+      default: 'none',
+    },
+    dnsRecords: {
+      type: [dnsRecordSchema],
+      default: [],
+    },
+    message: {
+      type: String,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    verifiedAt: {
+      type: Date,
+    },
+  },
+  { _id: false }
+);
+
+interface GitHubReport {
+  ref: string;
+  environment: string;
+  transient?: boolean;
+  state: GitHubDeploymentState;
+  url?: string;
+  description: string;
 }
 
-let cloudflareService: CloudflareService | null = null;
-let netlifyService: NetlifyService | null = null;
+const GITHUB_STATES: Record<ProjectStatus, GitHubDeploymentState> = {
+  deploying: 'in_progress',
+  deployed: 'success',
+  failed: 'failure',
+};
+
+/**
+ * Move unfinished deployment records along, each by its own provider build
+ * id, so a build that was superseded before it finished still ends up
+ * deployed or failed. Without an id only the latest record can be matched,
+ * to the project's status.
+ */
+async function settleOpenDeployments(
+  project: IProject,
+  service: DeploymentProvider
+): Promise<void> {
+  const open = await Deployment.find({ projectId: project._id, status: 'deploying' }).sort({
+    createdAt: 1,
+  });
+  if (open.length === 0) {
+    return;
+  }
+
+  const latest = await project.getLatestDeployment();
+  const context = await project.getProviderContext();
+
+  for (const deployment of open) {
+    const isLatest = latest !== null && latest._id.toString() === deployment._id.toString();
+    let state: ProjectStatus = project.status;
+    let url = isLatest ? project.deploymentUrl : deployment.url;
+
+    if (deployment.providerDeploymentId && service.getBuild) {
+      try {
+        const build = await service.getBuild(
+          project.deploymentId,
+          deployment.providerDeploymentId,
+          context
+        );
+        state = build.status;
+        url = isLatest ? project.deploymentUrl : build.url || deployment.url;
+      } catch (error) {
+        console.error(`Failed to check deployment ${deployment._id}:`, error);
+        continue;
+      }
+    } else if (!isLatest) {
+      continue;
+    }
+
+    const changed = deployment.transitionTo(state);
+    if (changed || deployment.url !== url) {
+      deployment.url = url;
+      await deployment.save();
+    }
 
-function getCloudflareService(): CloudflareService {
-  if (!cloudflareService) {
-    cloudflareService = new CloudflareService();
+    if (changed && deployment.githubDeploymentId) {
+      await reportToGitHub(project, deployment, {
+        ref: deployment.commitSha || deployment.branch,
+        environment: 'production',
+        state: GITHUB_STATES[state],
+        url,
+        description: `Deployment ${state}`,
+      });
+    }
   }
-  return cloudflareService;
 }
 
-function getNetlifyService(): NetlifyService {
-  if (!netlifyService) {
-    netlifyService = new NetlifyService();
+/**
+ * Move deploying previews along by their provider build and report the
+ * result to the PR's GitHub Deployment. A preview created before the
+ * provider had a build for it gets the build's id once it exists.
+ */
+async function settleOpenPreviews(project: IProject, service: DeploymentProvider): Promise<void> {
+  const open = await Preview.find({ projectId: project._id, status: 'deploying' });
+  if (open.length === 0) {
+    return;
+  }
+
+  const context = await project.getProviderContext();
+
+  for (const preview of open) {
+    try {
+      let build = null;
+      if (preview.providerDeploymentId && service.getBuild) {
+        build = await service.getBuild(project.deploymentId, preview.providerDeploymentId, context);
+      } else if (!preview.providerDeploymentId && service.findPreview) {
+        build = await service.findPreview(
+          project.deploymentId,
+          { prNumber: preview.prNumber, branch: preview.branch, commitSha: preview.commitSha },
+          context
+        );
+      }
+      if (!build) {
+        continue;
+      }
+
+      preview.providerDeploymentId = preview.providerDeploymentId || build.deploymentId;
+      preview.status = build.status;
+      preview.url = preview.url || build.url;
+      if (!preview.isModified()) {
+        continue;
+      }
+      await preview.save();
+
+      if (preview.status !== 'deploying') {
+        await reportToGitHub(project, preview, {
+          ref: preview.commitSha,
+          environment: `preview/pr-${preview.prNumber}`,
+          transient: true,
+          state: GITHUB_STATES[preview.status],
+          url: preview.url,
+          description: `Preview ${preview.status}`,
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to check preview ${preview._id}:`, error);
+    }
   }
-  return netlifyService;
 }
 
-function normalizeProjectStatus(value: string): ProjectStatus {
-  const v = value.toLowerCase();
-  if (v === 'deployed') return 'deployed';
-  if (v === 'failed') return 'failed';
-  return 'deploying';
+/**
+ * Start of the newest deployment record or preview that is still unfinished,
+ * or null when every build has settled
+ */
+async function latestOpenBuildStart(project: IProject): Promise<Date | null> {
+  const [deployment, preview] = await Promise.all([
+    Deployment.findOne({ projectId: project._id, status: 'deploying' }).sort({ startedAt: -1 }),
+    Preview.findOne({ projectId: project._id, status: 'deploying' }).sort({ updatedAt: -1 }),
+  ]);
+
+  const starts = [deployment?.startedAt, preview?.updatedAt].filter((d): d is Date => Boolean(d));
+  return starts.length > 0 ? new Date(Math.max(...starts.map((d) => d.getTime()))) : null;
+}
+
+// Queued redeploys wait this long for newer pushes before starting
+const DEPLOY_DEBOUNCE_MS = parseInt(process.env.DEPLOY_DEBOUNCE_SECONDS || '10', 10) * 1000;
+
+// GitHub events the installed webhook subscribes to
+const WEBHOOK_EVENTS = ['push', 'pull_request'];
+
+async function loadOwnerGitHubToken(userId: Types.ObjectId): Promise<string> {
+  const user = await User.findById(userId).select('+githubAccessToken');
+  return user ? user.getGitHubToken() : '';
+}
+
+/**
+ * Token and repository coordinates for managing the project's webhook
+ */
+async function webhookTarget(
+  project: IProject
+): Promise<{ token: string; owner: string; repo: string }> {
+  const token = await loadOwnerGitHubToken(project.userId);
+  if (!token) {
+    throw new GitHubError(
+      401,
+      'GITHUB_NOT_CONNECTED',
+      'GitHub account not connected. Please authenticate via OAuth.'
+    );
+  }
+
+  const [owner, repo] = project.githubRepo.split('/');
+  return { token, owner, repo };
+}
+
+function webhookConfig(project: IProject): RepoWebhookConfig {
+  if (!project.webhookSecret) {
+    throw new Error('Project must be loaded with +webhookSecret to manage its webhook');
+  }
+  return { url: getWebhookUrl(), secret: project.webhookSecret, events: WEBHOOK_EVENTS };
+}
+
+/**
+ * Mirror a build's state to a GitHub Deployment, creating the deployment on
+ * first report. Reporting is best effort and never fails the build.
+ */
+async function reportToGitHub(
+  project: IProject,
+  record: IDeployment | IPreview,
+  report: GitHubReport
+): Promise<void> {
+  try {
+    const token = await loadOwnerGitHubToken(project.userId);
+    const [owner, repo] = project.githubRepo.split('/');
+    if (!token || !owner || !repo) {
+      return;
+    }
+
+    if (!record.githubDeploymentId) {
+      record.githubDeploymentId = await createGitHubDeployment(token, owner, repo, {
+        ref: report.ref,
+        environment: report.environment,
+        transient: report.transient,
+        description: report.description,
+      });
+      await record.save();
+    }
+
+    await createGitHubDeploymentStatus(token, owner, repo, record.githubDeploymentId, {
+      state: report.state,
+      environmentUrl: report.url,
+      description: report.description,
+    });
+  } catch (error) {
+    console.error('Failed to report deployment status to GitHub:', error);
+  }
 }
 
 const projectSchema = new Schema<IProject>(
@@ -92,29 +408,15 @@ const projectSchema = new Schema<IProject>(
       unique: true,
       trim: true,
     },
-    webhookSecret: {
-      type: String,
-      required: true,
-    },
-    defaultBranch: {
-      type: String,
-      default: 'main',
-      required: true,
-    },
-    status: {
-      type: String,
-      default: 'idle',
-      enum: ['idle', 'deploying', 'success', 'failure'],
-      trim: true,
-    },
     deploymentProvider: {
       type: String,
       required: true,
-      enum: ['cloudflare', 'netlify'],
+      enum: getProviderIds(),
     },
+    // Empty until the deployment.create job has provisioned the provider deployment
     deploymentId: {
       type: String,
-      required: true,
+      default: '',
     },
     deploymentUrl: {
       type: String,
@@ -132,13 +434,32 @@ const projectSchema = new Schema<IProject>(
       required: true,
       select: false,
     },
+    webhookId: {
+      type: Number,
+    },
+    defaultBranch: {
+      type: String,
+      default: 'main',
+      required: true,
+    },
+    buildConfig: {
+      buildCommand: { type: String, default: '', maxlength: 500 },
+      publishDir: { type: String, default: '' },
+      rootDir: { type: String, default: '' },
+      runtimeVersion: { type: String, default: '' },
+    },
+    domains: {
+      type: [domainSchema],
+      default: [],
+    },
     lastDeploymentTime: {
       type: Date,
     },
-    owner: {
-      type: Schema.Types.ObjectId,
-      ref: 'User',
-      required: true,
+    statusCheckedAt: {
+      type: Date,
+    },
+    statusCheckAfter: {
+      type: Date,
     },
   },
   {
@@ -146,72 +467,588 @@ const projectSchema = new Schema<IProject>(
   }
 );
 
+projectSchema.index({ userId: 1, name: 1 }, { unique: true });
+projectSchema.index({ 'domains.hostname': 1 });
+projectSchema.index({ status: 1, statusCheckAfter: 1 });
+projectSchema.index({ statusCheckAfter: 1 });
+
+/**
+ * How long to wait before polling a deployment again. Builds usually finish
+ * within minutes, so young deployments are checked often and older ones
+ * back off.
+ */
+const STATUS_CHECK_INTERVALS: Array<{ age: number; interval: number }> = [
+  { age: 2 * 60 * 1000, interval: 10 * 1000 },
+  { age: 10 * 60 * 1000, interval: 30 * 1000 },
+  { age: 60 * 60 * 1000, interval: 2 * 60 * 1000 },
+];
+const STATUS_CHECK_MAX_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Set when the status poller should next look at the project. Projects are
+ * polled while they are deploying or still have unfinished builds (earlier
+ * deployments or previews), which can outlive the project status.
+ */
+function scheduleStatusCheck(project: IProject, openBuildStartedAt?: Date | null): void {
+  if (project.status !== 'deploying' && !openBuildStartedAt) {
+    project.statusCheckAfter = undefined;
+    return;
+  }
+
+  const now = Date.now();
+  const startedAt = Math.max(
+    (project.lastDeploymentTime || project.createdAt || new Date(now)).getTime(),
+    openBuildStartedAt ? openBuildStartedAt.getTime() : 0
+  );
+  const step = STATUS_CHECK_INTERVALS.find((s) => now - startedAt < s.age);
+  project.statusCheckAfter = new Date(now + (step ? step.interval : STATUS_CHECK_MAX_INTERVAL_MS));
+}
+
+function applyDomainStatus(domain: ProjectDomain, status: DomainStatus): void {
+  domain.verificationStatus = status.verificationStatus;
+  domain.sslStatus = status.sslStatus;
+  domain.dnsRecords = status.dnsRecords;
+  domain.message = status.message;
+  if (status.verificationStatus === 'verified' && !domain.verifiedAt) {
+    domain.verifiedAt = new Date();
+  }
+}
+
 // Method to verify webhook signature
 projectSchema.methods.verifyWebhookSignature = function (
+  this: IProject,
   signature: string,
-  payload: string
+  payload: string | Buffer
 ): boolean {
   return verifyGitHubSignature(payload, signature, this.webhookSecret);
 };
 
-// Method to trigger redeployment
-projectSchema.methods.triggerRedeploy = async function (): Promise<void> {
-  logRedeploy(this._id.toString(), this.defaultBranch, 'triggered');
-  // Logic to initiate redeployment would go here
+projectSchema.methods.getDeploymentService = function (
+  this: IProject
+): DeploymentProvider {
+  return getProvider(this.deploymentProvider);
 };
 
-// Method called when a webhook is received
-projectSchema.methods.onWebhookReceived = async function (
-  payload: any
-): Promise<void> {
-  const ref = payload.ref;
-  if (!ref) return;
-
-  const branch = ref.replace('refs/heads/', '');
-  
-  if (branch === this.defaultBranch) {
-    await this.triggerRedeploy();
-    this.status = 'deploying';
-    this.lastDeploymentTime = new Date();
-    await this.save();
+/**
+ * Build the per-call provider context, loading the owner's GitHub token
+ * only for providers that act on the user's behalf.
+ */
+projectSchema.methods.getProviderContext = async function (
+  this: IProject
+): Promise<ProviderContext> {
+  if (!this.getDeploymentService().requiresGitHubToken) {
+    return {};
   }
-projectSchema.index({ userId: 1, name: 1 }, { unique: true });
 
-projectSchema.methods.getDeploymentService = function (
+  return { gitHubToken: await loadOwnerGitHubToken(this.userId) };
+};
+
+projectSchema.methods.getLatestDeployment = function (
   this: IProject
-): CloudflareService | NetlifyService {
-  if (this.deploymentProvider === 'cloudflare') {
-    return getCloudflareService();
-  }
-  return getNetlifyService();
+): Promise<IDeployment | null> {
+  return Deployment.findOne({ projectId: this._id }).sort({ createdAt: -1 }).exec();
+};
+
+projectSchema.methods.recordDeployment = async function (
+  this: IProject,
+  options: RecordDeploymentOptions
+): Promise<IDeployment> {
+  const deployment = new Deployment({
+    projectId: this._id,
+    userId: this.userId,
+    trigger: options.trigger,
+    branch: options.branch || this.defaultBranch,
+    commitSha: options.commitSha,
+    commitMessage: options.commitMessage,
+    providerDeploymentId: options.providerDeploymentId,
+    rollbackOf: options.rollbackOf,
+    status: 'deploying',
+    url: this.deploymentUrl,
+    startedAt: new Date(),
+  });
+
+  await deployment.save();
+  return deployment;
 };
 
 projectSchema.methods.getDeploymentStatus = async function (
   this: IProject
 ): Promise<DeploymentStatus> {
-  const service = this.getDeploymentService() as any;
-  const status = (await service.getDeploymentStatus(
-    this.deploymentId
-  )) as DeploymentStatus;
+  // Nothing to ask the provider until the deployment exists
+  if (!this.deploymentId) {
+    return this.getStoredStatus();
+  }
+
+  const service = this.getDeploymentService();
+  const status = await service.getDeploymentStatus(
+    this.deploymentId,
+    await this.getProviderContext()
+  );
 
   this.status = normalizeProjectStatus(
     typeof status.status === 'string' ? status.status : 'deploying'
   );
   this.deploymentUrl = status.deploymentUrl || status.url || this.deploymentUrl;
   this.lastDeploymentTime = status.lastDeployed;
+  this.statusCheckedAt = new Date();
+  await this.save();
 
+  await settleOpenDeployments(this, service);
+  await settleOpenPreviews(this, service);
+
+  scheduleStatusCheck(this, await latestOpenBuildStart(this));
   await this.save();
 
   return status;
 };
 
-projectSchema.methods.triggerRedeploy = async function (this: IProject): Promise<void> {
-  const service = this.getDeploymentService() as any;
-  await service.triggerRedeploy(this.deploymentId);
+/**
+ * Deployment status as last fetched from the provider, without calling it
+ */
+projectSchema.methods.getStoredStatus = function (this: IProject): DeploymentStatus {
+  return {
+    status: this.status,
+    url: this.deploymentUrl,
+    lastDeployed: this.lastDeploymentTime || this.createdAt,
+    deploymentUrl: this.deploymentUrl,
+  };
+};
+
+/**
+ * Create the provider deployment for a new project and record the initial
+ * build. Safe to call again after a partial failure: a project that already
+ * has a deploymentId is left alone.
+ */
+projectSchema.methods.provisionDeployment = async function (this: IProject): Promise<void> {
+  if (this.deploymentId) {
+    return;
+  }
+
+  const gitHubToken = await loadOwnerGitHubToken(this.userId);
+  if (!gitHubToken) {
+    throw new GitHubError(
+      401,
+      'GITHUB_NOT_CONNECTED',
+      'GitHub account not connected. Please authenticate via OAuth.'
+    );
+  }
+
+  const config = this.buildConfig;
+  const hasBuildConfig = Boolean(
+    config && (config.buildCommand || config.publishDir || config.rootDir || config.runtimeVersion)
+  );
+
+  const deployment = await this.getDeploymentService().createDeployment(
+    this.name,
+    this.githubRepo,
+    gitHubToken,
+    {
+      buildConfig: hasBuildConfig
+        ? {
+            buildCommand: config.buildCommand,
+            publishDir: config.publishDir,
+            rootDir: config.rootDir,
+            runtimeVersion: config.runtimeVersion,
+          }
+        : undefined,
+      productionBranch: this.defaultBranch,
+    }
+  );
+
+  this.deploymentId = deployment.deploymentId;
+  this.deploymentUrl = deployment.url;
+  this.status = 'deploying';
+  this.lastDeploymentTime = deployment.createdAt;
+  scheduleStatusCheck(this);
+  await this.save();
+
+  await this.recordDeployment({
+    trigger: 'create',
+    providerDeploymentId: deployment.providerDeploymentId || undefined,
+  });
+};
+
+projectSchema.methods.triggerRedeploy = async function (
+  this: IProject,
+  options: RedeployOptions
+): Promise<IDeployment> {
+  const branch = options.branch || this.defaultBranch;
+  logRedeploy(this._id.toString(), branch, 'triggered');
+
+  const service = this.getDeploymentService();
+  const providerDeploymentId = await service.triggerRedeploy(this.deploymentId, {
+    ...(await this.getProviderContext()),
+    branch,
+    commitSha: options.commitSha,
+  });
 
   this.status = 'deploying';
   this.lastDeploymentTime = new Date();
+  scheduleStatusCheck(this);
+  await this.save();
+
+  const deployment = await this.recordDeployment({
+    ...options,
+    branch,
+    providerDeploymentId: providerDeploymentId || undefined,
+  });
+
+  // Developers see webhook builds of their pushes on the commit in GitHub
+  if (options.trigger === 'webhook') {
+    await reportToGitHub(this, deployment, {
+      ref: options.commitSha || branch,
+      environment: 'production',
+      state: 'in_progress',
+      url: this.deploymentUrl,
+      description: 'Deployment started',
+    });
+  }
+
+  return deployment;
+};
+
+/**
+ * Add a production redeploy to the project's deploy queue. The queue worker
+ * starts it with triggerRedeploy once no other deploy is in flight and no
+ * newer item arrived within the debounce window.
+ */
+projectSchema.methods.queueRedeploy = async function (
+  this: IProject,
+  options: RedeployOptions
+): Promise<IDeployQueueItem> {
+  const branch = options.branch || this.defaultBranch;
+  logRedeploy(this._id.toString(), branch, 'queued');
+
+  return DeployQueueItem.create({
+    projectId: this._id,
+    userId: this.userId,
+    trigger: options.trigger,
+    branch,
+    commitSha: options.commitSha,
+    commitMessage: options.commitMessage,
+    status: 'queued',
+    runAfter: new Date(Date.now() + DEPLOY_DEBOUNCE_MS),
+  });
+};
+
+/**
+ * Point the provider's production deployments at a new branch. Pushes to
+ * this branch are what the webhook redeploys. The caller saves the project.
+ */
+projectSchema.methods.updateProductionBranch = async function (
+  this: IProject,
+  branch: string
+): Promise<void> {
+  if (branch === this.defaultBranch) {
+    return;
+  }
+
+  // Before provisioning, the provider deployment is created with the stored branch
+  const service = this.getDeploymentService();
+  if (this.deploymentId && service.updateProductionBranch) {
+    await service.updateProductionBranch(
+      this.deploymentId,
+      branch,
+      await this.getProviderContext()
+    );
+  }
+
+  this.defaultBranch = branch;
+};
+
+/**
+ * Push the project's decrypted environment variables to the provider.
+ * Providers without env var support are skipped.
+ */
+projectSchema.methods.syncEnvVars = async function (this: IProject): Promise<void> {
+  const service = this.getDeploymentService();
+  if (!service.capabilities.envVars || !service.updateEnvVars) {
+    return;
+  }
+
+  const vars = await EnvVar.find({ projectId: this._id }).select('+value');
+  const envVars: EnvVarSet = { production: {}, preview: {} };
+  for (const envVar of vars) {
+    envVars[envVar.environment][envVar.key] = envVar.getValue();
+  }
+
+  await service.updateEnvVars(this.deploymentId, envVars, await this.getProviderContext());
+};
+
+projectSchema.methods.addDomain = async function (
+  this: IProject,
+  hostname: string
+): Promise<ProjectDomain> {
+  const service = this.getDeploymentService();
+  if (!service.capabilities.domains || !service.addDomain) {
+    throw new Error(`Deployment provider "${service.id}" does not support custom domains`);
+  }
+
+  const status = await service.addDomain(this.deploymentId, hostname, await this.getProviderContext());
+
+  const domain = { hostname, createdAt: new Date() } as ProjectDomain;
+  applyDomainStatus(domain, status);
+  this.domains.push(domain);
+  await this.save();
+
+  return this.domains[this.domains.length - 1];
+};
+
+/**
+ * Ask the provider for the domain's current verification and SSL state
+ */
+projectSchema.methods.refreshDomain = async function (
+  this: IProject,
+  hostname: string
+): Promise<ProjectDomain> {
+  const domain = this.domains.find((d) => d.hostname === hostname);
+  if (!domain) {
+    throw new Error(`Domain ${hostname} is not attached to this project`);
+  }
+
+  const service = this.getDeploymentService();
+  if (!service.capabilities.domains || !service.getDomain) {
+    throw new Error(`Deployment provider "${service.id}" does not support custom domains`);
+  }
+
+  const status = await service.getDomain(this.deploymentId, hostname, await this.getProviderContext());
+
+  applyDomainStatus(domain, status);
   await this.save();
+
+  return domain;
+};
+
+projectSchema.methods.removeDomain = async function (
+  this: IProject,
+  hostname: string
+): Promise<void> {
+  const service = this.getDeploymentService();
+  if (!service.capabilities.domains || !service.removeDomain) {
+    throw new Error(`Deployment provider "${service.id}" does not support custom domains`);
+  }
+
+  await service.removeDomain(this.deploymentId, hostname, await this.getProviderContext());
+
+  this.domains = this.domains.filter((d) => d.hostname !== hostname);
+  await this.save();
+};
+
+/**
+ * Build the pull request head as a preview deployment, creating or updating
+ * the PR's preview record
+ */
+projectSchema.methods.deployPreview = async function (
+  this: IProject,
+  options: PreviewOptions
+): Promise<IPreview> {
+  const service = this.getDeploymentService();
+  if (!service.capabilities.previews || !service.createPreview) {
+    throw new Error(`Deployment provider "${service.id}" does not support preview deployments`);
+  }
+
+  logRedeploy(this._id.toString(), options.branch, `preview #${options.prNumber}`);
+
+  const created = await service.createPreview(
+    this.deploymentId,
+    { prNumber: options.prNumber, branch: options.branch, commitSha: options.commitSha },
+    await this.getProviderContext()
+  );
+
+  let preview = await Preview.findOne({ projectId: this._id, prNumber: options.prNumber });
+  if (!preview) {
+    preview = new Preview({ projectId: this._id, userId: this.userId, prNumber: options.prNumber });
+  }
+
+  // Each head commit gets its own GitHub Deployment
+  if (preview.commitSha !== options.commitSha) {
+    preview.githubDeploymentId = undefined;
+  }
+
+  const previousId = preview.providerDeploymentId;
+  if (
+    previousId &&
+    previousId !== created.deploymentId &&
+    !preview.previousDeploymentIds.includes(previousId)
+  ) {
+    preview.previousDeploymentIds.push(previousId);
+  }
+
+  preview.title = options.title ?? preview.title;
+  preview.branch = options.branch;
+  preview.commitSha = options.commitSha;
+  preview.providerDeploymentId = created.deploymentId || undefined;
+  preview.status = created.status;
+  preview.url = created.url;
+  preview.closedAt = undefined;
+
+  await preview.save();
+
+  // Poll until the preview build settles, even when production is idle
+  if (preview.status === 'deploying') {
+    scheduleStatusCheck(this, preview.updatedAt);
+    await this.save();
+  }
+
+  await reportToGitHub(this, preview, {
+    ref: options.commitSha,
+    environment: `preview/pr-${options.prNumber}`,
+    transient: true,
+    state: GITHUB_STATES[created.status],
+    url: created.url,
+    description: `Preview ${created.status}`,
+  });
+
+  return preview;
+};
+
+/**
+ * Tear down every provider deployment made for the pull request and mark
+ * the preview closed. Returns null when the PR never had a preview.
+ */
+projectSchema.methods.closePreview = async function (
+  this: IProject,
+  prNumber: number
+): Promise<IPreview | null> {
+  const preview = await Preview.findOne({ projectId: this._id, prNumber });
+  if (!preview || preview.status === 'closed') {
+    return preview;
+  }
+
+  const service = this.getDeploymentService();
+  if (service.deletePreview) {
+    const context = await this.getProviderContext();
+    const ids = [...preview.previousDeploymentIds, preview.providerDeploymentId].filter(
+      (id): id is string => Boolean(id)
+    );
+
+    // Providers that track previews by PR number need one call even without an id
+    for (const providerDeploymentId of ids.length > 0 ? ids : [undefined]) {
+      await service.deletePreview(this.deploymentId, { prNumber, providerDeploymentId }, context);
+    }
+  }
+
+  logRedeploy(this._id.toString(), preview.branch, `preview #${prNumber} closed`);
+
+  preview.status = 'closed';
+  preview.closedAt = new Date();
+  preview.previousDeploymentIds = [];
+  await preview.save();
+
+  if (preview.githubDeploymentId) {
+    await reportToGitHub(this, preview, {
+      ref: preview.commitSha,
+      environment: `preview/pr-${prNumber}`,
+      transient: true,
+      state: 'inactive',
+      description: 'Preview deleted',
+    });
+  }
+
+  return preview;
+};
+
+/**
+ * Create the repository webhook that delivers pushes and pull requests to
+ * this API, signed with the project's webhookSecret
+ */
+projectSchema.methods.installWebhook = async function (this: IProject): Promise<number> {
+  const { token, owner, repo } = await webhookTarget(this);
+  const hook = await createRepoWebhook(token, owner, repo, webhookConfig(this));
+
+  this.webhookId = hook.id;
+  await this.save();
+
+  return hook.id;
+};
+
+/**
+ * Re-create the webhook if it was deleted, or overwrite its URL, secret and
+ * events. A hook already pointing at this API is adopted instead of duplicated.
+ */
+projectSchema.methods.repairWebhook = async function (
+  this: IProject
+): Promise<WebhookRepairResult> {
+  const { token, owner, repo } = await webhookTarget(this);
+  const config = webhookConfig(this);
+
+  const hooks = await listRepoWebhooks(token, owner, repo);
+  const existing =
+    hooks.find((hook) => hook.id === this.webhookId) ||
+    hooks.find((hook) => hook.url === config.url);
+
+  const action: WebhookRepairResult['action'] = existing ? 'updated' : 'created';
+  const hook = existing
+    ? await updateRepoWebhook(token, owner, repo, existing.id, config)
+    : await createRepoWebhook(token, owner, repo, config);
+
+  this.webhookId = hook.id;
+  await this.save();
+
+  return { action, hookId: hook.id };
+};
+
+projectSchema.methods.removeWebhook = async function (this: IProject): Promise<void> {
+  if (!this.webhookId) {
+    return;
+  }
+
+  const { token, owner, repo } = await webhookTarget(this);
+  await deleteRepoWebhook(token, owner, repo, this.webhookId);
+
+  this.webhookId = undefined;
+};
+
+/**
+ * Ask the provider to re-publish a previous deployment and record the
+ * rollback as a new deployment event pointing back at its source.
+ */
+projectSchema.methods.rollbackTo = async function (
+  this: IProject,
+  target: IDeployment
+): Promise<IDeployment> {
+  if (!target.providerDeploymentId) {
+    throw new Error('Deployment has no provider deployment id to roll back to');
+  }
+
+  const service = this.getDeploymentService();
+  if (!service.capabilities.rollback || !service.rollback) {
+    throw new Error(`Deployment provider "${service.id}" does not support rollback`);
+  }
+
+  logRedeploy(this._id.toString(), target.branch, 'rollback');
+
+  const restored = await service.rollback(
+    this.deploymentId,
+    target.providerDeploymentId,
+    await this.getProviderContext()
+  );
+
+  this.status = 'deploying';
+  this.lastDeploymentTime = new Date();
+  scheduleStatusCheck(this);
+  await this.save();
+
+  const deployment = await this.recordDeployment({
+    trigger: 'rollback',
+    branch: target.branch,
+    commitSha: target.commitSha,
+    commitMessage: target.commitMessage,
+    providerDeploymentId: restored.deploymentId,
+    rollbackOf: target._id as Types.ObjectId,
+  });
+
+  if (restored.url) {
+    deployment.url = restored.url;
+  }
+  if (restored.status !== 'deploying') {
+    deployment.transitionTo(restored.status);
+  }
+  if (deployment.isModified()) {
+    await deployment.save();
+  }
+
+  return deployment;
 };
 
 const Project: Model<IProject> =
@@ -0,0 +1,91 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export type SessionRevokeReason = 'logout' | 'logout_all' | 'token_reuse' | 'revoked_by_user';
+
+export const SESSION_REVOKE_REASONS: SessionRevokeReason[] = [
+  'logout',
+  'logout_all',
+  'token_reuse',
+  'revoked_by_user',
+];
+
+/** Revoked sessions are kept this long so reuse of their tokens is still recognised */
+const REVOKED_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * A login and its family of refresh tokens. Each refresh replaces tokenHash,
+ * so only the newest refresh token is valid; presenting an older one revokes
+ * the whole session. Access tokens carry the session id and stop working
+ * once it is revoked.
+ */
+export interface ISession extends Document {
+  userId: Types.ObjectId;
+  /** SHA-256 of the current refresh token's secret */
+  tokenHash: string;
+  /** Number of rotations so far */
+  generation: number;
+  /** Client of the most recent request, recorded by requestLogger */
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  /** The refresh token expires at this time; each rotation pushes it back */
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    generation: {
+      type: Number,
+      default: 0,
+    },
+    userAgent: {
+      type: String,
+      maxlength: 500,
+    },
+    ip: {
+      type: String,
+    },
+    lastUsedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: SESSION_REVOKE_REASONS,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+sessionSchema.index({ revokedAt: 1 }, { expireAfterSeconds: REVOKED_TTL_SECONDS });
+
+const Session: Model<ISession> =
+  mongoose.models.Session || mongoose.model<ISession>('Session', sessionSchema);
+
+export default Session;
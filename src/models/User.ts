@@ -9,6 +9,20 @@ export interface IUser extends Document {
   githubId?: string;
   githubAccessToken?: string;
   githubUsername?: string;
+  /** Encrypted TOTP secret; set once enrollment is confirmed */
+  totpSecret?: string;
+  /** Encrypted TOTP secret awaiting its first code during enrollment */
+  totpPendingSecret?: string;
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt?: Date;
+  /** Time step of the last accepted code, so a code cannot be used twice */
+  totpLastStep?: number;
+  /** SHA-256 hashes of the unused recovery codes */
+  recoveryCodes: string[];
+  /** Second-factor login attempts since the last success or lock, across challenges */
+  twoFactorFailedAttempts: number;
+  /** Second-factor logins are refused until this time */
+  twoFactorLockedUntil?: Date;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -47,6 +61,39 @@ const userSchema = new Schema<IUser>(
     githubUsername: {
       type: String,
     },
+    totpSecret: {
+      type: String,
+      select: false,
+    },
+    totpPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorEnabledAt: {
+      type: Date,
+    },
+    totpLastStep: {
+      type: Number,
+      select: false,
+    },
+    recoveryCodes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    twoFactorFailedAttempts: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    twoFactorLockedUntil: {
+      type: Date,
+      select: false,
+    },
   },
   {
     timestamps: true,
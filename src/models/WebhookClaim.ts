@@ -0,0 +1,37 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * Short-lived marker that a webhook delivery or commit is already being
+ * handled. The unique key makes claiming atomic across concurrent requests.
+ */
+export interface IWebhookClaim extends Document {
+  key: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookClaimSchema = new Schema<IWebhookClaim>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// MongoDB removes expired claims in the background; claim() also treats them as free
+webhookClaimSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const WebhookClaim: Model<IWebhookClaim> =
+  mongoose.models.WebhookClaim || mongoose.model<IWebhookClaim>('WebhookClaim', webhookClaimSchema);
+
+export default WebhookClaim;
@@ -0,0 +1,136 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+/**
+ * What the webhook pipeline did with a delivery
+ */
+export type WebhookDecision =
+  | 'pending'
+  | 'queued'
+  | 'duplicate_delivery'
+  | 'duplicate_commit'
+  | 'skipped_branch'
+  | 'missing_ref'
+  | 'ignored_event'
+  | 'ignored_action'
+  | 'previews_unsupported'
+  | 'skipped_fork'
+  | 'preview_triggered'
+  | 'preview_closed'
+  | 'invalid_signature'
+  | 'error';
+
+export const WEBHOOK_DECISIONS: WebhookDecision[] = [
+  'pending',
+  'queued',
+  'duplicate_delivery',
+  'duplicate_commit',
+  'skipped_branch',
+  'missing_ref',
+  'ignored_event',
+  'ignored_action',
+  'previews_unsupported',
+  'skipped_fork',
+  'preview_triggered',
+  'preview_closed',
+  'invalid_signature',
+  'error',
+];
+
+/** Deliveries are kept for 30 days */
+const DELIVERY_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Inbound GitHub webhook delivery for a project, stored with the outcome so
+ * missed deploys can be diagnosed and replayed.
+ */
+export interface IWebhookDelivery extends Document {
+  projectId: Types.ObjectId;
+  /** X-GitHub-Delivery header; absent on replays and test pushes */
+  deliveryId?: string;
+  event: string;
+  /** GitHub request headers (X-GitHub-*, X-Hub-Signature-256, User-Agent, Content-Type) */
+  headers: Record<string, string>;
+  payload: any;
+  signatureValid: boolean;
+  decision: WebhookDecision;
+  /** Status the pipeline answered with; 202 while the delivery is pending */
+  responseCode: number;
+  /** Error message when decision is 'error' */
+  error?: string;
+  /** Delivery this one re-ran, for replays */
+  replayOf?: Types.ObjectId;
+  deploymentId?: Types.ObjectId;
+  queueItemId?: Types.ObjectId;
+  previewId?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+    },
+    deliveryId: {
+      type: String,
+    },
+    event: {
+      type: String,
+      required: true,
+    },
+    headers: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+    },
+    signatureValid: {
+      type: Boolean,
+      required: true,
+    },
+    decision: {
+      type: String,
+      required: true,
+      enum: WEBHOOK_DECISIONS,
+    },
+    responseCode: {
+      type: Number,
+      required: true,
+    },
+    error: {
+      type: String,
+    },
+    replayOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebhookDelivery',
+    },
+    deploymentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Deployment',
+    },
+    queueItemId: {
+      type: Schema.Types.ObjectId,
+      ref: 'DeployQueueItem',
+    },
+    previewId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Preview',
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+webhookDeliverySchema.index({ projectId: 1, createdAt: -1 });
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: DELIVERY_TTL_SECONDS });
+
+const WebhookDelivery: Model<IWebhookDelivery> =
+  mongoose.models.WebhookDelivery ||
+  mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
+
+export default WebhookDelivery;
@@ -0,0 +1,211 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Job from '../models/Job';
+import DeadJob from '../models/DeadJob';
+import { retryDeadJob } from '../services/jobs';
+import { DEAD_JOB_ALREADY_RETRIED, DEAD_JOB_NOT_FOUND } from '../constants/errors';
+import { logRequest } from '../utils/logger';
+
+const router = Router();
+
+function sendErrorResponse(
+  res: Response,
+  statusCode: number,
+  code: string,
+  message: string
+): void {
+  res.status(statusCode).json({
+    status: 'error',
+    code,
+    message,
+  });
+}
+
+function serializeDeadJob(dead: any, includePayload = false): any {
+  const serialized: any = {
+    id: dead._id.toString(),
+    jobId: dead.jobId.toString(),
+    type: dead.type,
+    attempts: dead.attempts,
+    maxAttempts: dead.maxAttempts,
+    error: dead.error,
+    failedAt: dead.failedAt,
+    retriedAt: dead.retriedAt || null,
+    retryJobId: dead.retryJobId ? dead.retryJobId.toString() : null,
+  };
+
+  if (includePayload) {
+    serialized.payload = dead.payload ?? null;
+  }
+
+  return serialized;
+}
+
+/**
+ * GET /admin/jobs
+ * Job counts by state and type
+ */
+router.get('/jobs', async (req: Request, res: Response): Promise<void> => {
+  logRequest(req.method, req.path, req.authUser?.id);
+
+  try {
+    const [byState, dead] = await Promise.all([
+      Job.aggregate([
+        { $group: { _id: { status: '$status', type: '$type' }, count: { $sum: 1 } } },
+      ]),
+      DeadJob.aggregate([
+        { $match: { retriedAt: { $exists: false } } },
+        { $group: { _id: '$type', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const counts: Record<string, Record<string, number>> = {};
+    for (const row of byState) {
+      counts[row._id.status] = counts[row._id.status] || {};
+      counts[row._id.status][row._id.type] = row.count;
+    }
+    counts.dead = {};
+    for (const row of dead) {
+      counts.dead[row._id] = row.count;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        counts,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching job counts:', error);
+    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch job counts');
+  }
+});
+
+/**
+ * GET /admin/jobs/dead
+ * List dead-lettered jobs, newest first. Filter with ?type= and
+ * ?retried=true|false.
+ */
+router.get('/jobs/dead', async (req: Request, res: Response): Promise<void> => {
+  logRequest(req.method, req.path, req.authUser?.id);
+
+  const rawLimit = req.query.limit as string | undefined;
+  const rawOffset = req.query.offset as string | undefined;
+
+  const parsedLimit = rawLimit ? parseInt(rawLimit, 10) : 20;
+  const parsedOffset = rawOffset ? parseInt(rawOffset, 10) : 0;
+
+  const limit = Math.min(100, Math.max(1, Number.isFinite(parsedLimit) ? parsedLimit : 20));
+  const offset = Math.max(0, Number.isFinite(parsedOffset) ? parsedOffset : 0);
+
+  try {
+    const filter: any = {};
+    if (typeof req.query.type === 'string' && req.query.type) {
+      filter.type = req.query.type;
+    }
+    if (req.query.retried === 'true') {
+      filter.retriedAt = { $exists: true };
+    } else if (req.query.retried === 'false') {
+      filter.retriedAt = { $exists: false };
+    }
+
+    const [deadJobs, total] = await Promise.all([
+      DeadJob.find(filter).sort({ failedAt: -1 }).skip(offset).limit(limit),
+      DeadJob.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        jobs: deadJobs.map((dead) => serializeDeadJob(dead)),
+        pagination: {
+          limit,
+          offset,
+          returned: deadJobs.length,
+          total,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error listing dead jobs:', error);
+    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch dead jobs');
+  }
+});
+
+/**
+ * GET /admin/jobs/dead/:deadJobId
+ * Get a dead job including its payload
+ */
+router.get('/jobs/dead/:deadJobId', async (req: Request, res: Response): Promise<void> => {
+  logRequest(req.method, req.path, req.authUser?.id);
+
+  try {
+    const dead = await DeadJob.findById(req.params.deadJobId);
+    if (!dead) {
+      sendErrorResponse(res, 404, 'DEAD_JOB_NOT_FOUND', DEAD_JOB_NOT_FOUND);
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        job: serializeDeadJob(dead, true),
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'CastError') {
+      sendErrorResponse(res, 404, 'DEAD_JOB_NOT_FOUND', DEAD_JOB_NOT_FOUND);
+      return;
+    }
+
+    console.error('Error fetching dead job:', error);
+    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch dead job');
+  }
+});
+
+/**
+ * POST /admin/jobs/dead/:deadJobId/retry
+ * Enqueue the job again with a fresh set of attempts
+ */
+router.post(
+  '/jobs/dead/:deadJobId/retry',
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    try {
+      const dead = await DeadJob.findById(req.params.deadJobId);
+      if (!dead) {
+        sendErrorResponse(res, 404, 'DEAD_JOB_NOT_FOUND', DEAD_JOB_NOT_FOUND);
+        return;
+      }
+
+      const job = await retryDeadJob(dead._id.toString());
+      if (!job) {
+        sendErrorResponse(res, 409, 'DEAD_JOB_ALREADY_RETRIED', DEAD_JOB_ALREADY_RETRIED);
+        return;
+      }
+
+      res.status(202).json({
+        status: 'success',
+        data: {
+          retryJobId: job._id.toString(),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'CastError') {
+        sendErrorResponse(res, 404, 'DEAD_JOB_NOT_FOUND', DEAD_JOB_NOT_FOUND);
+        return;
+      }
+
+      console.error('Error retrying dead job:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to retry dead job');
+    }
+  }
+);
+
+// Error handling middleware for admin routes
+router.use((err: Error, req: Request, res: Response, next: NextFunction): void => {
+  console.error('Admin route error:', err);
+  sendErrorResponse(res, 500, 'SERVER_ERROR', 'An unexpected error occurred');
+});
+
+export default router;
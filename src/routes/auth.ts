@@ -1,29 +1,48 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import User from '../models/User';
-import { signupSchema, loginSchema } from '../schemas/validation';
+import {
+  signupSchema,
+  loginSchema,
+  refreshTokenSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+} from '../schemas/validation';
+import { authenticateToken } from '../middleware/authMiddleware';
+import {
+  AuthTokenError,
+  completeLoginChallenge,
+  createLoginChallenge,
+  createSession,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  revokeUserSession,
+  rotateRefreshToken,
+  SessionMeta,
+  verifyLoginChallenge,
+} from '../services/tokenService';
+import {
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  verifySecondFactor,
+} from '../services/twoFactorService';
 import passport from 'passport';
 
 const router = Router();
 
-const JWT_SECRET = process.env.JWT_SECRET || '';
-const JWT_EXPIRY = process.env.JWT_EXPIRY || '7d';
-
 interface AuthError extends Error {
   code?: string;
 }
 
-// Helper function to generate JWT token
-function generateToken(user: { id: string; email: string; username: string }): string {
-  return jwt.sign(
-    {
-      id: user.id,
-      email: user.email,
-      username: user.username,
-    },
-    JWT_SECRET,
-    { expiresIn: JWT_EXPIRY } as jwt.SignOptions
-  );
+// Helper function to describe the client a session belongs to
+function sessionMeta(req: Request): SessionMeta {
+  return {
+    userAgent: req.headers['user-agent'],
+    ip: req.ip || req.socket.remoteAddress,
+  };
 }
 
 // Helper function to send error response
@@ -96,18 +115,23 @@ router.post('/signup', async (req: Request, res: Response): Promise<void> => {
 
     await newUser.save();
 
-    // Generate JWT token
-    const token = generateToken({
-      id: newUser._id.toString(),
-      email: newUser.email,
-      username: newUser.username,
-    });
+    // Start a session: short-lived access token plus refresh token
+    const { token, refreshToken, expiresIn } = await createSession(
+      {
+        id: newUser._id.toString(),
+        email: newUser.email,
+        username: newUser.username,
+      },
+      sessionMeta(req)
+    );
 
-    // Return token and user info (without password)
+    // Return tokens and user info (without password)
     res.status(201).json({
       status: 'success',
       data: {
         token,
+        refreshToken,
+        expiresIn,
         user: {
           id: newUser._id.toString(),
           email: newUser.email,
@@ -171,18 +195,37 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Generate JWT token
-    const token = generateToken({
-      id: user._id.toString(),
-      email: user.email,
-      username: user.username,
-    });
+    // Accounts with two-factor authentication finish logging in at /auth/login/2fa
+    if (user.twoFactorEnabled) {
+      const { challengeToken, expiresIn } = await createLoginChallenge(user._id.toString());
+      res.status(200).json({
+        status: 'success',
+        data: {
+          twoFactorRequired: true,
+          challengeToken,
+          expiresIn,
+        },
+      });
+      return;
+    }
 
-    // Return token and user info (without password)
+    // Start a session: short-lived access token plus refresh token
+    const { token, refreshToken, expiresIn } = await createSession(
+      {
+        id: user._id.toString(),
+        email: user.email,
+        username: user.username,
+      },
+      sessionMeta(req)
+    );
+
+    // Return tokens and user info (without password)
     res.status(200).json({
       status: 'success',
       data: {
         token,
+        refreshToken,
+        expiresIn,
         user: {
           id: user._id.toString(),
           email: user.email,
@@ -201,11 +244,388 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// POST /auth/login/2fa - Second login step for accounts with two-factor authentication
+router.post('/login/2fa', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validationResult = twoFactorLoginSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      sendErrorResponse(
+        res,
+        400,
+        'VALIDATION_ERROR',
+        'Invalid input data',
+        validationResult.error.flatten().fieldErrors
+      );
+      return;
+    }
+
+    const { challengeToken, code } = validationResult.data;
+    const { userId, challengeId } = await verifyLoginChallenge(challengeToken);
+    const user = await verifySecondFactor(userId, code);
+    await completeLoginChallenge(challengeId);
+
+    const { token, refreshToken, expiresIn } = await createSession(
+      {
+        id: user._id.toString(),
+        email: user.email,
+        username: user.username,
+      },
+      sessionMeta(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        token,
+        refreshToken,
+        expiresIn,
+        user: {
+          id: user._id.toString(),
+          email: user.email,
+          username: user.username,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      sendErrorResponse(res, error.statusCode, error.code, error.message);
+      return;
+    }
+
+    console.error('Two-factor login error:', error);
+    sendErrorResponse(
+      res,
+      500,
+      'SERVER_ERROR',
+      'An error occurred during login'
+    );
+  }
+});
+
+// POST /auth/refresh - Exchange a refresh token for new tokens (rotation)
+router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validationResult = refreshTokenSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      sendErrorResponse(
+        res,
+        400,
+        'VALIDATION_ERROR',
+        'Invalid input data',
+        validationResult.error.flatten().fieldErrors
+      );
+      return;
+    }
+
+    const { token, refreshToken, expiresIn } = await rotateRefreshToken(
+      validationResult.data.refreshToken,
+      sessionMeta(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        token,
+        refreshToken,
+        expiresIn,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      sendErrorResponse(res, error.statusCode, error.code, error.message);
+      return;
+    }
+
+    console.error('Token refresh error:', error);
+    sendErrorResponse(
+      res,
+      500,
+      'SERVER_ERROR',
+      'An error occurred during token refresh'
+    );
+  }
+});
+
+// POST /auth/logout - Revoke the current session
+router.post('/logout', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    await revokeSession(req.authUser!.sessionId, 'logout');
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Logged out',
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    sendErrorResponse(
+      res,
+      500,
+      'SERVER_ERROR',
+      'An error occurred during logout'
+    );
+  }
+});
+
+// POST /auth/logout-all - Revoke every session of the current user
+router.post('/logout-all', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeAllSessions(req.authUser!.id, 'logout_all');
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Logged out of all sessions',
+      data: {
+        revoked,
+      },
+    });
+  } catch (error) {
+    console.error('Logout-all error:', error);
+    sendErrorResponse(
+      res,
+      500,
+      'SERVER_ERROR',
+      'An error occurred during logout'
+    );
+  }
+});
+
+// GET /auth/sessions - List the current user's active sessions
+router.get('/sessions', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id: userId, sessionId } = req.authUser!;
+    const sessions = await listSessions(userId);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        sessions: sessions.map((session) => ({
+          id: session._id.toString(),
+          current: session._id.toString() === sessionId,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+          ip: session.ip || null,
+          userAgent: session.userAgent || null,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    sendErrorResponse(
+      res,
+      500,
+      'SERVER_ERROR',
+      'An error occurred while listing sessions'
+    );
+  }
+});
+
+// DELETE /auth/sessions/:sessionId - Revoke one of the current user's sessions
+router.delete('/sessions/:sessionId', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeUserSession(
+      req.authUser!.id,
+      req.params.sessionId,
+      'revoked_by_user'
+    );
+
+    if (!revoked) {
+      sendErrorResponse(res, 404, 'SESSION_NOT_FOUND', 'Session not found');
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Session revoked',
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    sendErrorResponse(
+      res,
+      500,
+      'SERVER_ERROR',
+      'An error occurred while revoking the session'
+    );
+  }
+});
+
+// GET /auth/2fa - Two-factor authentication status of the current user
+router.get('/2fa', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = await getTwoFactorStatus(req.authUser!.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: status,
+    });
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      sendErrorResponse(res, error.statusCode, error.code, error.message);
+      return;
+    }
+
+    console.error('Two-factor status error:', error);
+    sendErrorResponse(
+      res,
+      500,
+      'SERVER_ERROR',
+      'An error occurred while reading two-factor status'
+    );
+  }
+});
+
+// POST /auth/2fa/setup - Start enrollment with a new authenticator secret
+router.post('/2fa/setup', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const setup = await startTwoFactorSetup(req.authUser!.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: setup,
+    });
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      sendErrorResponse(res, error.statusCode, error.code, error.message);
+      return;
+    }
+
+    console.error('Two-factor setup error:', error);
+    sendErrorResponse(
+      res,
+      500,
+      'SERVER_ERROR',
+      'An error occurred during two-factor setup'
+    );
+  }
+});
+
+// POST /auth/2fa/verify - Confirm enrollment with a code and enable two-factor authentication
+router.post('/2fa/verify', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validationResult = twoFactorCodeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      sendErrorResponse(
+        res,
+        400,
+        'VALIDATION_ERROR',
+        'Invalid input data',
+        validationResult.error.flatten().fieldErrors
+      );
+      return;
+    }
+
+    const recoveryCodes = await confirmTwoFactorSetup(
+      req.authUser!.id,
+      validationResult.data.code
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication enabled',
+      data: {
+        recoveryCodes,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      sendErrorResponse(res, error.statusCode, error.code, error.message);
+      return;
+    }
+
+    console.error('Two-factor verify error:', error);
+    sendErrorResponse(
+      res,
+      500,
+      'SERVER_ERROR',
+      'An error occurred during two-factor setup'
+    );
+  }
+});
+
+// POST /auth/2fa/disable - Turn off two-factor authentication (requires a code)
+router.post('/2fa/disable', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validationResult = twoFactorCodeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      sendErrorResponse(
+        res,
+        400,
+        'VALIDATION_ERROR',
+        'Invalid input data',
+        validationResult.error.flatten().fieldErrors
+      );
+      return;
+    }
+
+    await disableTwoFactor(req.authUser!.id, validationResult.data.code);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      sendErrorResponse(res, error.statusCode, error.code, error.message);
+      return;
+    }
+
+    console.error('Two-factor disable error:', error);
+    sendErrorResponse(
+      res,
+      500,
+      'SERVER_ERROR',
+      'An error occurred while disabling two-factor authentication'
+    );
+  }
+});
+
+// POST /auth/2fa/recovery-codes - Replace the recovery codes (requires a code)
+router.post('/2fa/recovery-codes', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validationResult = twoFactorCodeSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      sendErrorResponse(
+        res,
+        400,
+        'VALIDATION_ERROR',
+        'Invalid input data',
+        validationResult.error.flatten().fieldErrors
+      );
+      return;
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(
+      req.authUser!.id,
+      validationResult.data.code
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        recoveryCodes,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      sendErrorResponse(res, error.statusCode, error.code, error.message);
+      return;
+    }
+
+    console.error('Recovery code regeneration error:', error);
+    sendErrorResponse(
+      res,
+      500,
+      'SERVER_ERROR',
+      'An error occurred while generating recovery codes'
+    );
+  }
+});
+
 // GET /auth/github - Initiate GitHub OAuth flow
 router.get(
   '/github',
   passport.authenticate('github', {
-    scope: ['user:email', 'public_repo'],
+    scope: ['user:email', 'public_repo', 'admin:repo_hook'],
   })
 );
 
@@ -213,7 +633,7 @@ router.get(
 router.get(
   '/github/callback',
   passport.authenticate('github', { session: false }),
-  (req: Request, res: Response): void => {
+  async (req: Request, res: Response): Promise<void> => {
     try {
       const user = req.user as any;
       if (!user) {
@@ -222,16 +642,29 @@ router.get(
         return;
       }
 
-      // Generate JWT token for the authenticated user
-      const token = generateToken({
-        id: user._id.toString(),
-        email: user.email,
-        username: user.username,
-      });
-
-      // Redirect to frontend with token as query parameter
       const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-      res.redirect(`${frontendUrl}?token=${encodeURIComponent(token)}`);
+
+      // Accounts with two-factor authentication finish logging in at /auth/login/2fa
+      if (user.twoFactorEnabled) {
+        const { challengeToken } = await createLoginChallenge(user._id.toString());
+        res.redirect(`${frontendUrl}?challengeToken=${encodeURIComponent(challengeToken)}`);
+        return;
+      }
+
+      // Start a session for the authenticated user
+      const { token, refreshToken } = await createSession(
+        {
+          id: user._id.toString(),
+          email: user.email,
+          username: user.username,
+        },
+        sessionMeta(req)
+      );
+
+      // Redirect to frontend with tokens as query parameters
+      res.redirect(
+        `${frontendUrl}?token=${encodeURIComponent(token)}&refreshToken=${encodeURIComponent(refreshToken)}`
+      );
     } catch (error) {
       console.error('GitHub callback error:', error);
       const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
@@ -1,12 +1,306 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
+import User from '../models/User';
 import Project from '../models/Project';
-import { webhookConfigSchema } from '../schemas/validation';
-import { VALIDATION_ERROR } from '../constants/errors';
+import Deployment from '../models/Deployment';
+import DeploymentLog, { LOG_LEVELS, LogLevel } from '../models/DeploymentLog';
+import DeployQueueItem from '../models/DeployQueueItem';
+import EnvVar from '../models/EnvVar';
+import Preview from '../models/Preview';
+import WebhookDelivery, { WEBHOOK_DECISIONS } from '../models/WebhookDelivery';
+import { getProvider, ProviderError } from '../services/providers';
+import { getDefaultBranch, GitHubError } from '../services/githubService';
+import { handleGitHubEvent, recordDelivery } from '../services/webhookService';
+import { enqueueProvisioning } from '../services/jobs';
+import { reserveStream, streamDeployment, streamProjects } from '../services/deploymentStreamService';
+import {
+  findDeploymentLogs,
+  formatLogLine,
+  iterateDeploymentLogs,
+  LOG_EXPORT_FORMATS,
+  LogExportFormat,
+  LogQuery,
+  syncDeploymentLogs,
+} from '../services/deploymentLogService';
+import { BuildConfig } from '../types';
+import {
+  addDomainSchema,
+  createEnvVarSchema,
+  createProjectSchema,
+  updateEnvVarSchema,
+  updateProjectSchema,
+  webhookConfigSchema,
+} from '../schemas/validation';
+import {
+  DEPLOYMENT_FAILED,
+  DEPLOYMENT_NOT_FOUND,
+  DEPLOYMENT_NOT_ROLLBACKABLE,
+  DOMAIN_EXISTS,
+  DOMAIN_NOT_FOUND,
+  ENV_SYNC_FAILED,
+  ENV_VAR_EXISTS,
+  ENV_VAR_NOT_FOUND,
+  INSUFFICIENT_PERMISSIONS,
+  INVALID_GITHUB_REPO,
+  PROJECT_NAME_EXISTS,
+  PROJECT_NOT_FOUND,
+  PROVIDER_FEATURE_UNSUPPORTED,
+  QUEUE_ITEM_NOT_CANCELLABLE,
+  DEPLOY_IN_PROGRESS,
+  QUEUE_ITEM_NOT_FOUND,
+  TOO_MANY_STREAMS,
+  VALIDATION_ERROR,
+  WEBHOOK_DELIVERY_NOT_FOUND,
+  WEBHOOK_DELIVERY_NOT_REPLAYABLE,
+} from '../constants/errors';
 import { authenticateToken } from '../middleware/authMiddleware';
+import { logDeploymentEvent, logRequest } from '../utils/logger';
+import { getWebhookUrl } from '../utils/publicUrl';
+import { openEventStream } from '../utils/sse';
 
 const router = Router();
 
+function sendErrorResponse(
+  res: Response,
+  statusCode: number,
+  code: string,
+  message: string,
+  details?: any
+): void {
+  const payload: any = {
+    status: 'error',
+    code,
+    message,
+  };
+
+  if (details) {
+    payload.details = details;
+  }
+
+  res.status(statusCode).json(payload);
+}
+
+function serializeProject(project: any): any {
+  return {
+    id: project._id.toString(),
+    userId: project.userId.toString(),
+    name: project.name,
+    description: project.description || '',
+    githubRepo: project.githubRepo,
+    deploymentProvider: project.deploymentProvider,
+    deploymentId: project.deploymentId,
+    deploymentUrl: project.deploymentUrl,
+    status: project.status,
+    defaultBranch: project.defaultBranch,
+    webhookInstalled: Boolean(project.webhookId),
+    buildConfig: {
+      buildCommand: project.buildConfig?.buildCommand || '',
+      publishDir: project.buildConfig?.publishDir || '',
+      rootDir: project.buildConfig?.rootDir || '',
+      runtimeVersion: project.buildConfig?.runtimeVersion || '',
+    },
+    domains: (project.domains || []).map(serializeDomain),
+    lastDeploymentTime: project.lastDeploymentTime || null,
+    statusCheckedAt: project.statusCheckedAt || null,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  };
+}
+
+function serializeDomain(domain: any): any {
+  return {
+    hostname: domain.hostname,
+    verificationStatus: domain.verificationStatus,
+    sslStatus: domain.sslStatus,
+    dnsRecords: (domain.dnsRecords || []).map((record: any) => ({
+      type: record.type,
+      name: record.name,
+      value: record.value,
+    })),
+    message: domain.message || null,
+    createdAt: domain.createdAt,
+    verifiedAt: domain.verifiedAt || null,
+  };
+}
+
+/**
+ * Apply a partial build config on top of the current one. Omitted fields are
+ * kept; empty strings reset a field to the provider default.
+ */
+function mergeBuildConfig(
+  current: Partial<BuildConfig> | undefined,
+  update: Partial<BuildConfig>
+): BuildConfig {
+  return {
+    buildCommand: update.buildCommand ?? current?.buildCommand ?? '',
+    publishDir: update.publishDir ?? current?.publishDir ?? '',
+    rootDir: update.rootDir ?? current?.rootDir ?? '',
+    runtimeVersion: update.runtimeVersion ?? current?.runtimeVersion ?? '',
+  };
+}
+
+function serializeLogLine(log: any): any {
+  return {
+    seq: log.seq,
+    timestamp: log.timestamp,
+    level: log.level,
+    message: log.message,
+  };
+}
+
+function serializeDeployment(deployment: any): any {
+  return {
+    id: deployment._id.toString(),
+    projectId: deployment.projectId.toString(),
+    trigger: deployment.trigger,
+    commitSha: deployment.commitSha || null,
+    commitMessage: deployment.commitMessage || null,
+    branch: deployment.branch,
+    providerDeploymentId: deployment.providerDeploymentId || null,
+    rollbackOf: deployment.rollbackOf ? deployment.rollbackOf.toString() : null,
+    status: deployment.status,
+    statusHistory: deployment.statusHistory.map((change: any) => ({
+      status: change.status,
+      at: change.at,
+    })),
+    url: deployment.url,
+    startedAt: deployment.startedAt,
+    finishedAt: deployment.finishedAt || null,
+    durationMs: typeof deployment.durationMs === 'number' ? deployment.durationMs : null,
+    createdAt: deployment.createdAt,
+  };
+}
+
+function serializePreview(preview: any): any {
+  return {
+    id: preview._id.toString(),
+    projectId: preview.projectId.toString(),
+    prNumber: preview.prNumber,
+    title: preview.title || '',
+    branch: preview.branch,
+    commitSha: preview.commitSha,
+    providerDeploymentId: preview.providerDeploymentId || null,
+    status: preview.status,
+    url: preview.url,
+    closedAt: preview.closedAt || null,
+    createdAt: preview.createdAt,
+    updatedAt: preview.updatedAt,
+  };
+}
+
+/**
+ * Delivery summary for listings; the headers and payload are only included
+ * when includePayload is set
+ */
+function serializeWebhookDelivery(delivery: any, includePayload = false): any {
+  const serialized: any = {
+    id: delivery._id.toString(),
+    projectId: delivery.projectId.toString(),
+    deliveryId: delivery.deliveryId || null,
+    event: delivery.event,
+    action: delivery.payload?.action || null,
+    signatureValid: delivery.signatureValid,
+    decision: delivery.decision,
+    responseCode: delivery.responseCode,
+    error: delivery.error || null,
+    replayOf: delivery.replayOf ? delivery.replayOf.toString() : null,
+    deploymentId: delivery.deploymentId ? delivery.deploymentId.toString() : null,
+    queueItemId: delivery.queueItemId ? delivery.queueItemId.toString() : null,
+    previewId: delivery.previewId ? delivery.previewId.toString() : null,
+    createdAt: delivery.createdAt,
+  };
+
+  if (includePayload) {
+    serialized.headers = delivery.headers || {};
+    serialized.payload = delivery.payload ?? null;
+  }
+
+  return serialized;
+}
+
+function serializeQueueItem(item: any): any {
+  return {
+    id: item._id.toString(),
+    projectId: item.projectId.toString(),
+    trigger: item.trigger,
+    branch: item.branch,
+    commitSha: item.commitSha || null,
+    commitMessage: item.commitMessage || null,
+    status: item.status,
+    runAfter: item.runAfter,
+    deploymentId: item.deploymentId ? item.deploymentId.toString() : null,
+    supersededBy: item.supersededBy ? item.supersededBy.toString() : null,
+    error: item.error || null,
+    startedAt: item.startedAt || null,
+    finishedAt: item.finishedAt || null,
+    createdAt: item.createdAt,
+  };
+}
+
+function serializeEnvVar(envVar: any): any {
+  return {
+    id: envVar._id.toString(),
+    key: envVar.key,
+    environment: envVar.environment,
+    createdAt: envVar.createdAt,
+    updatedAt: envVar.updatedAt,
+  };
+}
+
+/**
+ * Sync the project's env vars to the provider after a stored change. On
+ * provider failure the change is undone with rollback, the error response is
+ * sent and false is returned, so the database never keeps a change the
+ * provider rejected.
+ */
+async function syncEnvVars(
+  project: any,
+  res: Response,
+  rollback: () => Promise<unknown>
+): Promise<boolean> {
+  try {
+    await project.syncEnvVars();
+    return true;
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      await rollback();
+      sendErrorResponse(res, 502, 'ENV_SYNC_FAILED', `${ENV_SYNC_FAILED}: ${error.message}`);
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Revert provider changes made earlier in a request whose later step failed,
+ * newest first. Failures are logged; the client sees the original error.
+ */
+async function undoProviderChanges(undo: Array<() => Promise<unknown>>): Promise<void> {
+  for (const step of [...undo].reverse()) {
+    try {
+      await step();
+    } catch (error) {
+      console.error('Failed to undo provider change:', error);
+    }
+  }
+}
+
+function parseGithubRepo(repo: string): { owner: string; repo: string } | null {
+  const parts = repo.split('/');
+  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    return null;
+  }
+  return { owner: parts[0], repo: parts[1] };
+}
+
+async function getUserGitHubToken(userId: string): Promise<string> {
+  const user = await User.findById(userId).select('+githubAccessToken');
+  if (!user) {
+    return '';
+  }
+  return user.getGitHubToken();
+}
+
 // Middleware to verify project ownership
 const verifyOwnership = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -14,28 +308,25 @@ const verifyOwnership = async (req: Request, res: Response, next: NextFunction)
     const project = await Project.findById(projectId);
 
     if (!project) {
-      res.status(404).json({
-        status: 'error',
-        code: 'NOT_FOUND',
-        message: 'Project not found'
-      });
+      sendErrorResponse(res, 404, 'PROJECT_NOT_FOUND', PROJECT_NOT_FOUND);
       return;
     }
 
-    if (project.owner.toString() !== req.authUser?.id) {
-      res.status(403).json({
-        status: 'error',
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to access this project'
-      });
+    if (project.userId.toString() !== req.authUser?.id) {
+      sendErrorResponse(res, 403, 'INSUFFICIENT_PERMISSIONS', INSUFFICIENT_PERMISSIONS);
       return;
     }
 
     (req as any).project = project;
     next();
   } catch (error) {
+    if (error instanceof Error && error.name === 'CastError') {
+      sendErrorResponse(res, 404, 'PROJECT_NOT_FOUND', PROJECT_NOT_FOUND);
+      return;
+    }
+
     console.error('Ownership verification error:', error);
-    res.status(500).json({ status: 'error', message: 'Internal server error' });
+    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Internal server error');
   }
 };
 
@@ -55,34 +346,88 @@ router.post('/:projectId/webhook-config', authenticateToken, verifyOwnership, as
   const { defaultBranch } = validationResult.data;
   const project = (req as any).project;
 
-  project.defaultBranch = defaultBranch;
-  await project.save();
+  try {
+    const previousBranch = project.defaultBranch;
+    await project.updateProductionBranch(defaultBranch);
+    try {
+      await project.save();
+    } catch (error) {
+      await undoProviderChanges([() => project.updateProductionBranch(previousBranch)]);
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      sendErrorResponse(res, 502, 'DEPLOYMENT_FAILED', `${DEPLOYMENT_FAILED}: ${error.message}`);
+      return;
+    }
+
+    console.error('Error updating webhook config:', error);
+    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to update webhook config');
+    return;
+  }
 
   res.status(200).json({
     status: 'success',
-    data: project,
+    data: {
+      project: serializeProject(project),
+    },
   });
 });
 
 // GET /projects/:projectId/webhook-secret
 router.get('/:projectId/webhook-secret', authenticateToken, verifyOwnership, async (req: Request, res: Response) => {
-  const project = (req as any).project;
-  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-  const webhookUrl = `${frontendUrl}/webhook/github`;
-
+  const project = await Project.findById((req as any).project._id).select('+webhookSecret');
+  if (!project) {
+    sendErrorResponse(res, 404, 'PROJECT_NOT_FOUND', PROJECT_NOT_FOUND);
+    return;
+  }
   res.status(200).json({
     status: 'success',
     data: {
       webhookSecret: project.webhookSecret,
-      webhookUrl,
+      webhookUrl: getWebhookUrl(),
     },
   });
 });
 
+// POST /projects/:projectId/webhook/repair
+router.post('/:projectId/webhook/repair', authenticateToken, verifyOwnership, async (req: Request, res: Response) => {
+  try {
+    const project = await Project.findById((req as any).project._id).select('+webhookSecret');
+    if (!project) {
+      sendErrorResponse(res, 404, 'PROJECT_NOT_FOUND', PROJECT_NOT_FOUND);
+      return;
+    }
+
+    const result = await project.repairWebhook();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        action: result.action,
+        hookId: result.hookId,
+        webhookUrl: getWebhookUrl(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof GitHubError) {
+      sendErrorResponse(res, error.statusCode, error.code, error.message);
+      return;
+    }
+
+    console.error('Webhook repair failed:', error);
+    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to repair webhook');
+  }
+});
+
 // POST /projects/:projectId/webhook/test
 router.post('/:projectId/webhook/test', authenticateToken, verifyOwnership, async (req: Request, res: Response) => {
   try {
-    const project = (req as any).project;
+    const project = await Project.findById((req as any).project._id).select('+webhookSecret');
+    if (!project) {
+      sendErrorResponse(res, 404, 'PROJECT_NOT_FOUND', PROJECT_NOT_FOUND);
+      return;
+    }
     
     // Simulate a push event payload
     const payload = {
@@ -127,85 +472,177 @@ router.post('/:projectId/webhook/test', authenticateToken, verifyOwnership, asyn
     console.error('Webhook test failed:', error);
     res.status(500).json({ status: 'error', message: 'Test failed' });
   }
-import User from '../models/User';
-import Project from '../models/Project';
-import CloudflareService, { CloudflareError } from '../services/cloudflareService';
-import NetlifyService, { NetlifyError } from '../services/netlifyService';
-import {
-  createProjectSchema,
-  updateProjectSchema,
-} from '../schemas/validation';
-import {
-  DEPLOYMENT_FAILED,
-  INSUFFICIENT_PERMISSIONS,
-  INVALID_GITHUB_REPO,
-  PROJECT_NAME_EXISTS,
-  PROJECT_NOT_FOUND,
-} from '../constants/errors';
-import { logDeploymentEvent, logRequest } from '../utils/logger';
-
-const router = Router();
+});
 
-function sendErrorResponse(
-  res: Response,
-  statusCode: number,
-  code: string,
-  message: string,
-  details?: any
-): void {
-  const payload: any = {
-    status: 'error',
-    code,
-    message,
-  };
+/**
+ * GET /projects/:projectId/webhook/deliveries
+ * List inbound webhook deliveries (newest first, paginated).
+ * Filter with ?event= and ?decision=.
+ */
+router.get(
+  '/:projectId/webhook/deliveries',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
 
-  if (details) {
-    payload.details = details;
-  }
+    const rawLimit = req.query.limit as string | undefined;
+    const rawOffset = req.query.offset as string | undefined;
 
-  res.status(statusCode).json(payload);
-}
+    const parsedLimit = rawLimit ? parseInt(rawLimit, 10) : 20;
+    const parsedOffset = rawOffset ? parseInt(rawOffset, 10) : 0;
 
-function serializeProject(project: any): any {
-  return {
-    id: project._id.toString(),
-    userId: project.userId.toString(),
-    name: project.name,
-    description: project.description || '',
-    githubRepo: project.githubRepo,
-    deploymentProvider: project.deploymentProvider,
-    deploymentId: project.deploymentId,
-    deploymentUrl: project.deploymentUrl,
-    status: project.status,
-    lastDeploymentTime: project.lastDeploymentTime || null,
-    createdAt: project.createdAt,
-    updatedAt: project.updatedAt,
-  };
-}
+    const limit = Math.min(100, Math.max(1, Number.isFinite(parsedLimit) ? parsedLimit : 20));
+    const offset = Math.max(0, Number.isFinite(parsedOffset) ? parsedOffset : 0);
 
-function parseGithubRepo(repo: string): { owner: string; repo: string } | null {
-  const parts = repo.split('/');
-  if (parts.length !== 2 || !parts[0] || !parts[1]) {
-    return null;
-  }
-  return { owner: parts[0], repo: parts[1] };
-}
+    try {
+      const project = (req as any).project;
+      const filter: any = { projectId: project._id };
+      if (typeof req.query.event === 'string' && req.query.event) {
+        filter.event = req.query.event;
+      }
+      if (WEBHOOK_DECISIONS.includes(req.query.decision as any)) {
+        filter.decision = req.query.decision;
+      }
 
-function getDeploymentService(provider: string): CloudflareService | NetlifyService {
-  return provider === 'cloudflare' ? new CloudflareService() : new NetlifyService();
-}
+      const [deliveries, total] = await Promise.all([
+        WebhookDelivery.find(filter).sort({ createdAt: -1 }).skip(offset).limit(limit),
+        WebhookDelivery.countDocuments(filter),
+      ]);
 
-async function getUserGitHubToken(userId: string): Promise<string> {
-  const user = await User.findById(userId).select('+githubAccessToken');
-  if (!user) {
-    return '';
+      res.status(200).json({
+        status: 'success',
+        data: {
+          deliveries: deliveries.map((delivery) => serializeWebhookDelivery(delivery)),
+          pagination: {
+            limit,
+            offset,
+            returned: deliveries.length,
+            total,
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Error listing webhook deliveries:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch webhook deliveries');
+    }
   }
-  return user.getGitHubToken();
-}
+);
 
 /**
- * POST /projects
- * Create a project and trigger initial deployment
+ * GET /projects/:projectId/webhook/deliveries/:deliveryId
+ * Get a single delivery including its headers and payload
+ */
+router.get(
+  '/:projectId/webhook/deliveries/:deliveryId',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    try {
+      const project = (req as any).project;
+      const delivery = await WebhookDelivery.findOne({
+        _id: req.params.deliveryId,
+        projectId: project._id,
+      });
+
+      if (!delivery) {
+        sendErrorResponse(res, 404, 'WEBHOOK_DELIVERY_NOT_FOUND', WEBHOOK_DELIVERY_NOT_FOUND);
+        return;
+      }
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          delivery: serializeWebhookDelivery(delivery, true),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'CastError') {
+        sendErrorResponse(res, 404, 'WEBHOOK_DELIVERY_NOT_FOUND', WEBHOOK_DELIVERY_NOT_FOUND);
+        return;
+      }
+
+      console.error('Error fetching webhook delivery:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch webhook delivery');
+    }
+  }
+);
+
+/**
+ * POST /projects/:projectId/webhook/deliveries/:deliveryId/replay
+ * Re-run a stored delivery through the webhook pipeline. The replay is
+ * recorded as a new delivery pointing back at the original.
+ */
+router.post(
+  '/:projectId/webhook/deliveries/:deliveryId/replay',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    try {
+      const project = (req as any).project;
+      const original = await WebhookDelivery.findOne({
+        _id: req.params.deliveryId,
+        projectId: project._id,
+      });
+
+      if (!original) {
+        sendErrorResponse(res, 404, 'WEBHOOK_DELIVERY_NOT_FOUND', WEBHOOK_DELIVERY_NOT_FOUND);
+        return;
+      }
+
+      // Unsigned payloads were never accepted from GitHub and are not run now either
+      if (!original.signatureValid) {
+        sendErrorResponse(
+          res,
+          409,
+          'WEBHOOK_DELIVERY_NOT_REPLAYABLE',
+          WEBHOOK_DELIVERY_NOT_REPLAYABLE
+        );
+        return;
+      }
+
+      const outcome = await handleGitHubEvent(project, original.event, original.payload, {
+        replay: true,
+      });
+      const replay = await recordDelivery(
+        project,
+        {
+          event: original.event,
+          headers: original.headers,
+          payload: original.payload,
+          signatureValid: true,
+          replayOf: original._id.toString(),
+        },
+        outcome
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          delivery: replay ? serializeWebhookDelivery(replay) : null,
+          decision: outcome.decision,
+          response: {
+            statusCode: outcome.responseCode,
+            body: outcome.body,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'CastError') {
+        sendErrorResponse(res, 404, 'WEBHOOK_DELIVERY_NOT_FOUND', WEBHOOK_DELIVERY_NOT_FOUND);
+        return;
+      }
+
+      console.error('Error replaying webhook delivery:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to replay webhook delivery');
+    }
+  }
+);
+
+/**
+ * POST /projects
+ * Create a project and queue its initial deployment
  */
 router.post('/', async (req: Request, res: Response): Promise<void> => {
   logRequest(req.method, req.path, req.authUser?.id);
@@ -229,8 +666,12 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
 
   const { name, description, githubRepo, deploymentProvider } =
     validationResult.data;
+  const buildConfig = validationResult.data.buildConfig
+    ? mergeBuildConfig(undefined, validationResult.data.buildConfig)
+    : undefined;
 
-  if (!parseGithubRepo(githubRepo)) {
+  const repoParts = parseGithubRepo(githubRepo);
+  if (!repoParts) {
     sendErrorResponse(res, 400, 'INVALID_GITHUB_REPO', INVALID_GITHUB_REPO);
     return;
   }
@@ -242,156 +683,1170 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const gitHubToken = await getUserGitHubToken(req.authUser.id);
-    if (!gitHubToken) {
+    const gitHubToken = await getUserGitHubToken(req.authUser.id);
+    if (!gitHubToken) {
+      sendErrorResponse(
+        res,
+        401,
+        'GITHUB_NOT_CONNECTED',
+        'GitHub account not connected. Please authenticate via OAuth.'
+      );
+      return;
+    }
+
+    const deploymentService = getProvider(deploymentProvider);
+    if (buildConfig && !deploymentService.capabilities.buildConfig) {
+      sendErrorResponse(
+        res,
+        400,
+        'PROVIDER_FEATURE_UNSUPPORTED',
+        `${PROVIDER_FEATURE_UNSUPPORTED}: build configuration`
+      );
+      return;
+    }
+
+    const defaultBranch =
+      validationResult.data.defaultBranch ||
+      (await getDefaultBranch(gitHubToken, repoParts.owner, repoParts.repo));
+
+    const webhookSecret = crypto.randomBytes(32).toString('hex');
+
+    const project = new Project({
+      userId: req.authUser.id,
+      name,
+      description,
+      githubRepo,
+      deploymentProvider,
+      status: 'deploying',
+      webhookSecret,
+      defaultBranch,
+      buildConfig,
+    });
+
+    await project.save();
+
+    // The provider deployment is created by the deployment.create job
+    await enqueueProvisioning(project._id.toString());
+
+    // A missing hook only disables auto-deploys; it can be fixed with POST /:projectId/webhook/repair
+    try {
+      await project.installWebhook();
+    } catch (error) {
+      console.error('Failed to install GitHub webhook:', error);
+    }
+
+    logDeploymentEvent(project._id.toString(), 'create', 'deploying');
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        project: serializeProject(project),
+      },
+    });
+  } catch (error) {
+    if (error && typeof error === 'object') {
+      if (error instanceof GitHubError) {
+        sendErrorResponse(res, error.statusCode, error.code, error.message);
+        return;
+      }
+
+      if ((error as any).code === 11000) {
+        sendErrorResponse(res, 409, 'PROJECT_NAME_EXISTS', PROJECT_NAME_EXISTS);
+        return;
+      }
+    }
+
+    console.error('Error creating project:', error);
+    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to create project');
+  }
+});
+
+/**
+ * GET /projects
+ * List user's projects with their stored deployment status
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  logRequest(req.method, req.path, req.authUser?.id);
+
+  if (!req.authUser) {
+    sendErrorResponse(res, 401, 'UNAUTHORIZED', 'Authentication required');
+    return;
+  }
+
+  try {
+    const projects = await Project.find({ userId: req.authUser.id }).sort({
+      createdAt: -1,
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        projects: projects.map(serializeProject),
+      },
+    });
+  } catch (error) {
+    console.error('Error listing projects:', error);
+    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch projects');
+  }
+});
+
+/**
+ * GET /projects/stream
+ * Server-Sent Events stream of status changes across the user's projects
+ */
+router.get('/stream', async (req: Request, res: Response): Promise<void> => {
+  logRequest(req.method, req.path, req.authUser?.id);
+
+  if (!req.authUser) {
+    sendErrorResponse(res, 401, 'UNAUTHORIZED', 'Authentication required');
+    return;
+  }
+
+  const release = reserveStream(req.authUser.id);
+  if (!release) {
+    sendErrorResponse(res, 429, 'TOO_MANY_STREAMS', TOO_MANY_STREAMS);
+    return;
+  }
+
+  const stream = openEventStream(req, res);
+  try {
+    await streamProjects(stream, req.authUser.id);
+  } catch (error) {
+    console.error('Error streaming project statuses:', error);
+    stream.send('error', { message: 'Failed to stream project statuses' });
+  } finally {
+    release();
+    stream.close();
+  }
+});
+
+/**
+ * GET /projects/:projectId
+ * Get a single project and its stored deployment status. Use
+ * POST /projects/:projectId/refresh to fetch it from the provider.
+ */
+router.get('/:projectId', async (req: Request, res: Response): Promise<void> => {
+  logRequest(req.method, req.path, req.authUser?.id);
+
+  if (!req.authUser) {
+    sendErrorResponse(res, 401, 'UNAUTHORIZED', 'Authentication required');
+    return;
+  }
+
+  try {
+    const project = await Project.findById(req.params.projectId);
+
+    if (!project) {
+      sendErrorResponse(res, 404, 'PROJECT_NOT_FOUND', PROJECT_NOT_FOUND);
+      return;
+    }
+
+    if (project.userId.toString() !== req.authUser.id) {
+      sendErrorResponse(
+        res,
+        403,
+        'INSUFFICIENT_PERMISSIONS',
+        INSUFFICIENT_PERMISSIONS
+      );
+      return;
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        project: serializeProject(project),
+        deploymentStatus: project.getStoredStatus(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'CastError') {
+      sendErrorResponse(res, 404, 'PROJECT_NOT_FOUND', PROJECT_NOT_FOUND);
+      return;
+    }
+
+    console.error('Error fetching project:', error);
+    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch project');
+  }
+});
+
+/**
+ * POST /projects/:projectId/refresh
+ * Fetch the deployment status from the provider now instead of waiting for
+ * the status poller
+ */
+router.post(
+  '/:projectId/refresh',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    try {
+      const project = (req as any).project;
+      const deploymentStatus = await project.getDeploymentStatus();
+      logDeploymentEvent(project._id.toString(), 'status_refresh', project.status);
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          project: serializeProject(project),
+          deploymentStatus,
+        },
+      });
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        sendErrorResponse(
+          res,
+          502,
+          'DEPLOYMENT_FAILED',
+          `${DEPLOYMENT_FAILED}: ${error.message}`
+        );
+        return;
+      }
+
+      console.error('Error refreshing deployment status:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to refresh deployment status');
+    }
+  }
+);
+
+/**
+ * Parse ?cursor=, ?limit=, ?level= and ?q= for the log endpoints. Returns
+ * null when a parameter is invalid.
+ */
+function parseLogQuery(req: Request): LogQuery | null {
+  const rawLimit = req.query.limit as string | undefined;
+  const parsedLimit = rawLimit ? parseInt(rawLimit, 10) : 100;
+  const limit = Math.min(500, Math.max(1, Number.isFinite(parsedLimit) ? parsedLimit : 100));
+
+  const query: LogQuery = { limit };
+
+  const cursor = req.query.cursor;
+  if (cursor !== undefined) {
+    if (typeof cursor !== 'string' || !/^\d+$/.test(cursor)) {
+      return null;
+    }
+    query.after = parseInt(cursor, 10);
+  }
+
+  const level = req.query.level;
+  if (level !== undefined) {
+    if (typeof level !== 'string') {
+      return null;
+    }
+    const levels = level.split(',').map((l) => l.trim());
+    if (!levels.every((l): l is LogLevel => (LOG_LEVELS as string[]).includes(l))) {
+      return null;
+    }
+    query.levels = levels;
+  }
+
+  const search = req.query.q;
+  if (search !== undefined) {
+    if (typeof search !== 'string' || search.length > 200) {
+      return null;
+    }
+    query.search = search.trim() || undefined;
+  }
+
+  return query;
+}
+
+/**
+ * Sync a deployment's log from the provider if it may have grown, then send
+ * a page of stored lines. Provider failures fall back to the stored log.
+ */
+async function sendDeploymentLogs(
+  res: Response,
+  project: any,
+  deployment: any,
+  query: LogQuery
+): Promise<void> {
+  if (!deployment) {
+    res.status(200).json({
+      status: 'success',
+      data: {
+        deploymentId: null,
+        status: project.status,
+        complete: false,
+        lastUpdated: null,
+        logs: [],
+        pagination: { limit: query.limit, returned: 0, hasMore: false, nextCursor: null },
+      },
+    });
+    return;
+  }
+
+  try {
+    await syncDeploymentLogs(project, deployment);
+  } catch (error) {
+    console.error('Error syncing deployment logs:', error);
+  }
+
+  const logs = await findDeploymentLogs(deployment._id, query);
+  const last = logs[logs.length - 1];
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      deploymentId: deployment._id.toString(),
+      status: deployment.status,
+      complete: deployment.logsComplete,
+      lastUpdated: deployment.logsSyncedAt || null,
+      logs: logs.map(serializeLogLine),
+      pagination: {
+        limit: query.limit,
+        returned: logs.length,
+        hasMore: logs.length === query.limit,
+        // Pass back as ?cursor= to continue; a running build's log keeps growing
+        nextCursor: last ? String(last.seq) : query.after !== undefined ? String(query.after) : null,
+      },
+    },
+  });
+}
+
+/**
+ * GET /projects/:projectId/logs
+ * Get the latest deployment's build log (cursor-paginated)
+ */
+router.get(
+  '/:projectId/logs',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    const query = parseLogQuery(req);
+    if (!query) {
+      sendErrorResponse(res, 400, 'VALIDATION_ERROR', 'Invalid log query parameters');
+      return;
+    }
+
+    try {
+      const project = (req as any).project;
+      const deployment = await project.getLatestDeployment();
+      await sendDeploymentLogs(res, project, deployment, query);
+    } catch (error) {
+      console.error('Error fetching project logs:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch deployment logs');
+    }
+  }
+);
+
+/**
+ * GET /projects/:projectId/deployments/:deploymentId/logs
+ * Get a deployment's build log (cursor-paginated), including builds the
+ * provider has since pruned
+ */
+router.get(
+  '/:projectId/deployments/:deploymentId/logs',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    const query = parseLogQuery(req);
+    if (!query) {
+      sendErrorResponse(res, 400, 'VALIDATION_ERROR', 'Invalid log query parameters');
+      return;
+    }
+
+    try {
+      const project = (req as any).project;
+      const deployment = await Deployment.findOne({
+        _id: req.params.deploymentId,
+        projectId: project._id,
+      });
+
+      if (!deployment) {
+        sendErrorResponse(res, 404, 'DEPLOYMENT_NOT_FOUND', DEPLOYMENT_NOT_FOUND);
+        return;
+      }
+
+      await sendDeploymentLogs(res, project, deployment, query);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'CastError') {
+        sendErrorResponse(res, 404, 'DEPLOYMENT_NOT_FOUND', DEPLOYMENT_NOT_FOUND);
+        return;
+      }
+
+      console.error('Error fetching deployment logs:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch deployment logs');
+    }
+  }
+);
+
+/**
+ * Resolve once the response can take more data, or the client went away
+ */
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = (): void => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.once('drain', done);
+    res.once('close', done);
+  });
+}
+
+/**
+ * GET /projects/:projectId/deployments/:deploymentId/logs/export
+ * Download a deployment's build log as NDJSON, plain text or CSV. Lines are
+ * streamed from the log store, so large logs are never held in memory.
+ */
+router.get(
+  '/:projectId/deployments/:deploymentId/logs/export',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    const format = (req.query.format || 'ndjson') as string;
+    if (!Object.prototype.hasOwnProperty.call(LOG_EXPORT_FORMATS, format)) {
+      sendErrorResponse(
+        res,
+        400,
+        'VALIDATION_ERROR',
+        `Unsupported format; use one of: ${Object.keys(LOG_EXPORT_FORMATS).join(', ')}`
+      );
+      return;
+    }
+
+    const query = parseLogQuery(req);
+    if (!query) {
+      sendErrorResponse(res, 400, 'VALIDATION_ERROR', 'Invalid log query parameters');
+      return;
+    }
+
+    const project = (req as any).project;
+    let deployment;
+    try {
+      deployment = await Deployment.findOne({
+        _id: req.params.deploymentId,
+        projectId: project._id,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'CastError') {
+        sendErrorResponse(res, 404, 'DEPLOYMENT_NOT_FOUND', DEPLOYMENT_NOT_FOUND);
+        return;
+      }
+
+      console.error('Error fetching deployment:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch deployment');
+      return;
+    }
+
+    if (!deployment) {
+      sendErrorResponse(res, 404, 'DEPLOYMENT_NOT_FOUND', DEPLOYMENT_NOT_FOUND);
+      return;
+    }
+
+    try {
+      await syncDeploymentLogs(project, deployment);
+    } catch (error) {
+      console.error('Error syncing deployment logs:', error);
+    }
+
+    const { contentType, extension, header } = LOG_EXPORT_FORMATS[format as LogExportFormat];
+    const baseName = `${project.name}-${deployment._id.toString()}`.replace(/[^A-Za-z0-9._-]/g, '_');
+
+    res.status(200);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${baseName}.${extension}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    const cursor = iterateDeploymentLogs(deployment._id, {
+      after: query.after,
+      levels: query.levels,
+      search: query.search,
+    });
+
+    try {
+      if (header) {
+        res.write(header);
+      }
+
+      for await (const log of cursor) {
+        if (res.destroyed) {
+          break;
+        }
+        // Wait for the client to catch up instead of buffering
+        if (!res.write(formatLogLine(log, format as LogExportFormat))) {
+          await waitForDrain(res);
+        }
+      }
+
+      res.end();
+    } catch (error) {
+      console.error('Error exporting deployment logs:', error);
+      // Headers are already sent; cut the download short so it is not mistaken for a full log
+      res.destroy();
+    } finally {
+      await cursor.close().catch(() => undefined);
+    }
+  }
+);
+
+/**
+ * GET /projects/:projectId/deployments
+ * List a project's deployment history (newest first, paginated)
+ */
+router.get(
+  '/:projectId/deployments',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    const rawLimit = req.query.limit as string | undefined;
+    const rawOffset = req.query.offset as string | undefined;
+
+    const parsedLimit = rawLimit ? parseInt(rawLimit, 10) : 20;
+    const parsedOffset = rawOffset ? parseInt(rawOffset, 10) : 0;
+
+    const limit = Math.min(100, Math.max(1, Number.isFinite(parsedLimit) ? parsedLimit : 20));
+    const offset = Math.max(0, Number.isFinite(parsedOffset) ? parsedOffset : 0);
+
+    try {
+      const project = (req as any).project;
+      const filter = { projectId: project._id };
+
+      const [deployments, total] = await Promise.all([
+        Deployment.find(filter).sort({ createdAt: -1 }).skip(offset).limit(limit),
+        Deployment.countDocuments(filter),
+      ]);
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          deployments: deployments.map(serializeDeployment),
+          pagination: {
+            limit,
+            offset,
+            returned: deployments.length,
+            total,
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Error listing deployments:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch deployments');
+    }
+  }
+);
+
+/**
+ * GET /projects/:projectId/deployments/:deploymentId
+ * Get a single deployment record
+ */
+router.get(
+  '/:projectId/deployments/:deploymentId',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    try {
+      const project = (req as any).project;
+      const deployment = await Deployment.findOne({
+        _id: req.params.deploymentId,
+        projectId: project._id,
+      });
+
+      if (!deployment) {
+        sendErrorResponse(res, 404, 'DEPLOYMENT_NOT_FOUND', DEPLOYMENT_NOT_FOUND);
+        return;
+      }
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          deployment: serializeDeployment(deployment),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'CastError') {
+        sendErrorResponse(res, 404, 'DEPLOYMENT_NOT_FOUND', DEPLOYMENT_NOT_FOUND);
+        return;
+      }
+
+      console.error('Error fetching deployment:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch deployment');
+    }
+  }
+);
+
+/**
+ * GET /projects/:projectId/deployments/:deploymentId/stream
+ * Server-Sent Events stream of a deployment's status transitions and new
+ * log lines, ending once it is deployed or failed
+ */
+router.get(
+  '/:projectId/deployments/:deploymentId/stream',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    let deployment;
+    try {
+      deployment = await Deployment.findOne({
+        _id: req.params.deploymentId,
+        projectId: (req as any).project._id,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'CastError') {
+        sendErrorResponse(res, 404, 'DEPLOYMENT_NOT_FOUND', DEPLOYMENT_NOT_FOUND);
+        return;
+      }
+
+      console.error('Error fetching deployment:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch deployment');
+      return;
+    }
+
+    if (!deployment) {
+      sendErrorResponse(res, 404, 'DEPLOYMENT_NOT_FOUND', DEPLOYMENT_NOT_FOUND);
+      return;
+    }
+
+    const release = reserveStream((req as any).project.userId.toString());
+    if (!release) {
+      sendErrorResponse(res, 429, 'TOO_MANY_STREAMS', TOO_MANY_STREAMS);
+      return;
+    }
+
+    const stream = openEventStream(req, res);
+    try {
+      await streamDeployment(stream, (req as any).project, deployment._id);
+    } catch (error) {
+      console.error('Error streaming deployment:', error);
+      stream.send('error', { message: 'Failed to stream deployment' });
+    } finally {
+      release();
+      stream.close();
+    }
+  }
+);
+
+/**
+ * POST /projects/:projectId/deployments/:deploymentId/rollback
+ * Re-publish a previous successful deployment on the provider
+ */
+router.post(
+  '/:projectId/deployments/:deploymentId/rollback',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    try {
+      const project = (req as any).project;
+      const target = await Deployment.findOne({
+        _id: req.params.deploymentId,
+        projectId: project._id,
+      });
+
+      if (!target) {
+        sendErrorResponse(res, 404, 'DEPLOYMENT_NOT_FOUND', DEPLOYMENT_NOT_FOUND);
+        return;
+      }
+
+      if (!project.getDeploymentService().capabilities.rollback) {
+        sendErrorResponse(
+          res,
+          400,
+          'PROVIDER_FEATURE_UNSUPPORTED',
+          PROVIDER_FEATURE_UNSUPPORTED
+        );
+        return;
+      }
+
+      if (target.status !== 'deployed' || !target.providerDeploymentId) {
+        sendErrorResponse(
+          res,
+          409,
+          'DEPLOYMENT_NOT_ROLLBACKABLE',
+          DEPLOYMENT_NOT_ROLLBACKABLE
+        );
+        return;
+      }
+
+      // Rollbacks start right away instead of queueing, so they wait for
+      // nothing else to be in flight; the queue waits for them in turn
+      const [running, rollingBack] = await Promise.all([
+        DeployQueueItem.exists({ projectId: project._id, status: 'running' }),
+        Deployment.exists({ projectId: project._id, trigger: 'rollback', status: 'deploying' }),
+      ]);
+      if (running || rollingBack) {
+        sendErrorResponse(res, 409, 'DEPLOY_IN_PROGRESS', DEPLOY_IN_PROGRESS);
+        return;
+      }
+
+      const deployment = await project.rollbackTo(target);
+
+      logDeploymentEvent(project._id.toString(), 'rollback', deployment.status);
+
+      res.status(202).json({
+        status: 'success',
+        data: {
+          deployment: serializeDeployment(deployment),
+        },
+      });
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        sendErrorResponse(
+          res,
+          502,
+          'DEPLOYMENT_FAILED',
+          `${DEPLOYMENT_FAILED}: ${error.message}`
+        );
+        return;
+      }
+
+      if (error instanceof Error && error.name === 'CastError') {
+        sendErrorResponse(res, 404, 'DEPLOYMENT_NOT_FOUND', DEPLOYMENT_NOT_FOUND);
+        return;
+      }
+
+      console.error('Error rolling back deployment:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to roll back deployment');
+    }
+  }
+);
+
+/**
+ * GET /projects/:projectId/queue
+ * Deploy queue state: the in-flight deploy, queued deploys (newest first,
+ * the one that will run next) and the most recent finished items
+ */
+router.get(
+  '/:projectId/queue',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    try {
+      const project = (req as any).project;
+
+      const [running, queued, recent] = await Promise.all([
+        DeployQueueItem.findOne({ projectId: project._id, status: 'running' }),
+        DeployQueueItem.find({ projectId: project._id, status: 'queued' }).sort({ createdAt: -1 }),
+        DeployQueueItem.find({
+          projectId: project._id,
+          status: { $nin: ['queued', 'running'] },
+        })
+          .sort({ finishedAt: -1 })
+          .limit(20),
+      ]);
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          running: running ? serializeQueueItem(running) : null,
+          queued: queued.map(serializeQueueItem),
+          recent: recent.map(serializeQueueItem),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching deploy queue:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch deploy queue');
+    }
+  }
+);
+
+/**
+ * DELETE /projects/:projectId/queue
+ * Cancel every queued deploy. The in-flight deploy is not affected.
+ */
+router.delete(
+  '/:projectId/queue',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    try {
+      const project = (req as any).project;
+      const result = await DeployQueueItem.updateMany(
+        { projectId: project._id, status: 'queued' },
+        { $set: { status: 'cancelled', finishedAt: new Date() } }
+      );
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          cancelled: result.modifiedCount,
+        },
+      });
+    } catch (error) {
+      console.error('Error cancelling deploy queue:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to cancel queued deploys');
+    }
+  }
+);
+
+/**
+ * DELETE /projects/:projectId/queue/:itemId
+ * Cancel a queued deploy
+ */
+router.delete(
+  '/:projectId/queue/:itemId',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    try {
+      const project = (req as any).project;
+      const item = await DeployQueueItem.findOneAndUpdate(
+        { _id: req.params.itemId, projectId: project._id, status: 'queued' },
+        { $set: { status: 'cancelled', finishedAt: new Date() } },
+        { new: true }
+      );
+
+      if (!item) {
+        const existing = await DeployQueueItem.exists({
+          _id: req.params.itemId,
+          projectId: project._id,
+        });
+        if (existing) {
+          sendErrorResponse(res, 409, 'QUEUE_ITEM_NOT_CANCELLABLE', QUEUE_ITEM_NOT_CANCELLABLE);
+        } else {
+          sendErrorResponse(res, 404, 'QUEUE_ITEM_NOT_FOUND', QUEUE_ITEM_NOT_FOUND);
+        }
+        return;
+      }
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          item: serializeQueueItem(item),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'CastError') {
+        sendErrorResponse(res, 404, 'QUEUE_ITEM_NOT_FOUND', QUEUE_ITEM_NOT_FOUND);
+        return;
+      }
+
+      console.error('Error cancelling queued deploy:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to cancel queued deploy');
+    }
+  }
+);
+
+/**
+ * GET /projects/:projectId/previews
+ * List pull request preview deployments, open ones first
+ */
+router.get(
+  '/:projectId/previews',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    try {
+      const project = (req as any).project;
+      const filter: any = { projectId: project._id };
+      if (req.query.state === 'open') {
+        filter.status = { $ne: 'closed' };
+      } else if (req.query.state === 'closed') {
+        filter.status = 'closed';
+      }
+
+      const previews = await Preview.find(filter).sort({ prNumber: -1 });
+      const open = previews.filter((p) => p.status !== 'closed');
+      const closed = previews.filter((p) => p.status === 'closed');
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          previews: [...open, ...closed].map(serializePreview),
+        },
+      });
+    } catch (error) {
+      console.error('Error listing previews:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch previews');
+    }
+  }
+);
+
+/**
+ * GET /projects/:projectId/env
+ * List environment variables. Values are never returned.
+ */
+router.get(
+  '/:projectId/env',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    try {
+      const project = (req as any).project;
+      const filter: any = { projectId: project._id };
+      if (req.query.environment === 'production' || req.query.environment === 'preview') {
+        filter.environment = req.query.environment;
+      }
+
+      const envVars = await EnvVar.find(filter).sort({ environment: 1, key: 1 });
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          envVars: envVars.map(serializeEnvVar),
+        },
+      });
+    } catch (error) {
+      console.error('Error listing environment variables:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch environment variables');
+    }
+  }
+);
+
+/**
+ * POST /projects/:projectId/env
+ * Create an environment variable and sync it to the provider.
+ * The plaintext value is only included in this response.
+ */
+router.post(
+  '/:projectId/env',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    const validationResult = createEnvVarSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      sendErrorResponse(
+        res,
+        400,
+        'VALIDATION_ERROR',
+        'Invalid input data',
+        validationResult.error.flatten().fieldErrors
+      );
+      return;
+    }
+
+    const { key, value, environment } = validationResult.data;
+
+    try {
+      const project = (req as any).project;
+
+      if (!project.getDeploymentService().capabilities.envVars) {
+        sendErrorResponse(
+          res,
+          400,
+          'PROVIDER_FEATURE_UNSUPPORTED',
+          `${PROVIDER_FEATURE_UNSUPPORTED}: environment variables`
+        );
+        return;
+      }
+
+      const existing = await EnvVar.findOne({ projectId: project._id, environment, key });
+      if (existing) {
+        sendErrorResponse(res, 409, 'ENV_VAR_EXISTS', ENV_VAR_EXISTS);
+        return;
+      }
+
+      const envVar = new EnvVar({ projectId: project._id, key, environment });
+      envVar.setValue(value);
+      await envVar.save();
+
+      if (!(await syncEnvVars(project, res, () => EnvVar.deleteOne({ _id: envVar._id })))) {
+        return;
+      }
+
+      res.status(201).json({
+        status: 'success',
+        data: {
+          envVar: { ...serializeEnvVar(envVar), value },
+        },
+      });
+    } catch (error) {
+      if ((error as any)?.code === 11000) {
+        sendErrorResponse(res, 409, 'ENV_VAR_EXISTS', ENV_VAR_EXISTS);
+        return;
+      }
+
+      console.error('Error creating environment variable:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to create environment variable');
+    }
+  }
+);
+
+/**
+ * PATCH /projects/:projectId/env/:envVarId
+ * Replace an environment variable's value and sync it to the provider
+ */
+router.patch(
+  '/:projectId/env/:envVarId',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    const validationResult = updateEnvVarSchema.safeParse(req.body);
+    if (!validationResult.success) {
       sendErrorResponse(
         res,
-        401,
-        'GITHUB_NOT_CONNECTED',
-        'GitHub account not connected. Please authenticate via OAuth.'
+        400,
+        'VALIDATION_ERROR',
+        'Invalid input data',
+        validationResult.error.flatten().fieldErrors
       );
       return;
     }
 
-    const deploymentService = getDeploymentService(deploymentProvider) as any;
+    try {
+      const project = (req as any).project;
+      const envVar = await EnvVar.findOne({
+        _id: req.params.envVarId,
+        projectId: project._id,
+      }).select('+value');
+
+      if (!envVar) {
+        sendErrorResponse(res, 404, 'ENV_VAR_NOT_FOUND', ENV_VAR_NOT_FOUND);
+        return;
+      }
 
-    const deployment = await deploymentService.createDeployment(
-      name,
-      githubRepo,
-      gitHubToken
-    );
+      const previous = { value: envVar.value, updatedAt: envVar.updatedAt };
+      envVar.setValue(validationResult.data.value);
+      await envVar.save();
 
-    const webhookSecret = crypto.randomBytes(32).toString('hex');
+      const restore = () => EnvVar.updateOne({ _id: envVar._id }, previous, { timestamps: false });
+      if (!(await syncEnvVars(project, res, restore))) {
+        return;
+      }
 
-    const project = new Project({
-      userId: req.authUser.id,
-      name,
-      description,
-      githubRepo,
-      deploymentProvider,
-      deploymentId: deployment.deploymentId,
-      status: 'deploying',
-      deploymentUrl: deployment.url,
-      webhookSecret,
-      lastDeploymentTime: deployment.createdAt,
-    });
+      res.status(200).json({
+        status: 'success',
+        data: {
+          envVar: serializeEnvVar(envVar),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'CastError') {
+        sendErrorResponse(res, 404, 'ENV_VAR_NOT_FOUND', ENV_VAR_NOT_FOUND);
+        return;
+      }
 
-    await project.save();
+      console.error('Error updating environment variable:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to update environment variable');
+    }
+  }
+);
 
-    logDeploymentEvent(project._id.toString(), 'create', 'deploying');
+/**
+ * DELETE /projects/:projectId/env/:envVarId
+ * Delete an environment variable and remove it from the provider
+ */
+router.delete(
+  '/:projectId/env/:envVarId',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
 
-    res.status(201).json({
-      status: 'success',
-      data: {
-        project: serializeProject(project),
-      },
-    });
-  } catch (error) {
-    if (error && typeof error === 'object') {
-      if (error instanceof CloudflareError || error instanceof NetlifyError) {
-        sendErrorResponse(
-          res,
-          502,
-          'DEPLOYMENT_FAILED',
-          `${DEPLOYMENT_FAILED}: ${error.message}`
-        );
+    try {
+      const project = (req as any).project;
+      const envVar = await EnvVar.findOneAndDelete({
+        _id: req.params.envVarId,
+        projectId: project._id,
+      }).select('+value');
+
+      if (!envVar) {
+        sendErrorResponse(res, 404, 'ENV_VAR_NOT_FOUND', ENV_VAR_NOT_FOUND);
         return;
       }
 
-      if ((error as any).code === 11000) {
-        sendErrorResponse(res, 409, 'PROJECT_NAME_EXISTS', PROJECT_NAME_EXISTS);
+      const restore = () => new EnvVar(envVar.toObject()).save({ timestamps: false });
+      if (!(await syncEnvVars(project, res, restore))) {
         return;
       }
-    }
 
-    console.error('Error creating project:', error);
-    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to create project');
+      res.status(200).json({
+        status: 'success',
+        data: {
+          success: true,
+          message: 'Environment variable deleted',
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'CastError') {
+        sendErrorResponse(res, 404, 'ENV_VAR_NOT_FOUND', ENV_VAR_NOT_FOUND);
+        return;
+      }
+
+      console.error('Error deleting environment variable:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to delete environment variable');
+    }
   }
-});
+);
 
 /**
- * GET /projects
- * List user's projects
+ * GET /projects/:projectId/domains
+ * List custom domains with their last known verification and SSL status
  */
-router.get('/', async (req: Request, res: Response): Promise<void> => {
-  logRequest(req.method, req.path, req.authUser?.id);
-
-  if (!req.authUser) {
-    sendErrorResponse(res, 401, 'UNAUTHORIZED', 'Authentication required');
-    return;
-  }
-
-  try {
-    const projects = await Project.find({ userId: req.authUser.id }).sort({
-      createdAt: -1,
-    });
+router.get(
+  '/:projectId/domains',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
 
-    await Promise.allSettled(
-      projects.map(async (p) => {
-        try {
-          await p.getDeploymentStatus();
-          logDeploymentEvent(p._id.toString(), 'status_refresh', p.status);
-        } catch {
-          // best-effort refresh
-        }
-      })
-    );
+    const project = (req as any).project;
 
     res.status(200).json({
       status: 'success',
       data: {
-        projects: projects.map(serializeProject),
+        domains: (project.domains || []).map(serializeDomain),
       },
     });
-  } catch (error) {
-    console.error('Error listing projects:', error);
-    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch projects');
   }
-});
+);
 
 /**
- * GET /projects/:projectId
- * Get a single project and live deployment status
+ * POST /projects/:projectId/domains
+ * Attach a custom domain and return the DNS records to create
  */
-router.get('/:projectId', async (req: Request, res: Response): Promise<void> => {
-  logRequest(req.method, req.path, req.authUser?.id);
-
-  if (!req.authUser) {
-    sendErrorResponse(res, 401, 'UNAUTHORIZED', 'Authentication required');
-    return;
-  }
-
-  try {
-    const project = await Project.findById(req.params.projectId);
-
-    if (!project) {
-      sendErrorResponse(res, 404, 'PROJECT_NOT_FOUND', PROJECT_NOT_FOUND);
-      return;
-    }
+router.post(
+  '/:projectId/domains',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
 
-    if (project.userId.toString() !== req.authUser.id) {
+    const validationResult = addDomainSchema.safeParse(req.body);
+    if (!validationResult.success) {
       sendErrorResponse(
         res,
-        403,
-        'INSUFFICIENT_PERMISSIONS',
-        INSUFFICIENT_PERMISSIONS
+        400,
+        'VALIDATION_ERROR',
+        'Invalid input data',
+        validationResult.error.flatten().fieldErrors
       );
       return;
     }
 
+    const { hostname } = validationResult.data;
+
     try {
-      const deploymentStatus = await project.getDeploymentStatus();
-      logDeploymentEvent(project._id.toString(), 'status_refresh', project.status);
+      const project = (req as any).project;
 
-      res.status(200).json({
+      if (!project.getDeploymentService().capabilities.domains) {
+        sendErrorResponse(
+          res,
+          400,
+          'PROVIDER_FEATURE_UNSUPPORTED',
+          `${PROVIDER_FEATURE_UNSUPPORTED}: custom domains`
+        );
+        return;
+      }
+
+      const existing = await Project.findOne({ 'domains.hostname': hostname });
+      if (existing) {
+        sendErrorResponse(res, 409, 'DOMAIN_EXISTS', DOMAIN_EXISTS);
+        return;
+      }
+
+      const domain = await project.addDomain(hostname);
+
+      res.status(201).json({
         status: 'success',
         data: {
-          project: serializeProject(project),
-          deploymentStatus,
+          domain: serializeDomain(domain),
         },
       });
     } catch (error) {
-      if (error instanceof CloudflareError || error instanceof NetlifyError) {
+      if (error instanceof ProviderError) {
         sendErrorResponse(
           res,
           502,
@@ -401,105 +1856,97 @@ router.get('/:projectId', async (req: Request, res: Response): Promise<void> =>
         return;
       }
 
-      console.error('Error fetching deployment status:', error);
-      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch project status');
-    }
-  } catch (error) {
-    if (error instanceof Error && error.name === 'CastError') {
-      sendErrorResponse(res, 404, 'PROJECT_NOT_FOUND', PROJECT_NOT_FOUND);
-      return;
+      console.error('Error adding domain:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to add domain');
     }
-
-    console.error('Error fetching project:', error);
-    sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch project');
   }
-});
+);
 
 /**
- * GET /projects/:projectId/logs
- * Get deployment logs (paginated)
+ * POST /projects/:projectId/domains/:hostname/verify
+ * Re-check DNS verification and certificate status with the provider
  */
-router.get(
-  '/:projectId/logs',
+router.post(
+  '/:projectId/domains/:hostname/verify',
+  verifyOwnership,
   async (req: Request, res: Response): Promise<void> => {
     logRequest(req.method, req.path, req.authUser?.id);
 
-    if (!req.authUser) {
-      sendErrorResponse(res, 401, 'UNAUTHORIZED', 'Authentication required');
+    const project = (req as any).project;
+    const hostname = req.params.hostname.toLowerCase();
+
+    if (!project.domains.some((d: any) => d.hostname === hostname)) {
+      sendErrorResponse(res, 404, 'DOMAIN_NOT_FOUND', DOMAIN_NOT_FOUND);
       return;
     }
 
-    const rawLimit = req.query.limit as string | undefined;
-    const rawOffset = req.query.offset as string | undefined;
-
-    const parsedLimit = rawLimit ? parseInt(rawLimit, 10) : 50;
-    const parsedOffset = rawOffset ? parseInt(rawOffset, 10) : 0;
-
-    const limitBase = Number.isFinite(parsedLimit) ? parsedLimit : 50;
-    const offsetBase = Number.isFinite(parsedOffset) ? parsedOffset : 0;
-
-    const limit = Math.min(200, Math.max(1, limitBase));
-    const offset = Math.max(0, offsetBase);
-
     try {
-      const project = await Project.findById(req.params.projectId);
-
-      if (!project) {
-        sendErrorResponse(res, 404, 'PROJECT_NOT_FOUND', PROJECT_NOT_FOUND);
-        return;
-      }
+      const domain = await project.refreshDomain(hostname);
 
-      if (project.userId.toString() !== req.authUser.id) {
+      res.status(200).json({
+        status: 'success',
+        data: {
+          domain: serializeDomain(domain),
+        },
+      });
+    } catch (error) {
+      if (error instanceof ProviderError) {
         sendErrorResponse(
           res,
-          403,
-          'INSUFFICIENT_PERMISSIONS',
-          INSUFFICIENT_PERMISSIONS
+          502,
+          'DEPLOYMENT_FAILED',
+          `${DEPLOYMENT_FAILED}: ${error.message}`
         );
         return;
       }
 
-      try {
-        const service = project.getDeploymentService() as any;
-        const allLogs = await service.getDeploymentLogs(project.deploymentId);
-        const logs = allLogs.slice(offset, offset + limit);
-
-        res.status(200).json({
-          status: 'success',
-          data: {
-            logs,
-            status: project.status,
-            lastUpdated: new Date(),
-            pagination: {
-              limit,
-              offset,
-              returned: logs.length,
-              total: allLogs.length,
-            },
-          },
-        });
-      } catch (error) {
-        if (error instanceof CloudflareError || error instanceof NetlifyError) {
-          sendErrorResponse(
-            res,
-            502,
-            'DEPLOYMENT_FAILED',
-            `${DEPLOYMENT_FAILED}: ${error.message}`
-          );
-          return;
-        }
+      console.error('Error verifying domain:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to verify domain');
+    }
+  }
+);
 
-        console.error('Error fetching deployment logs:', error);
-        sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch deployment logs');
-      }
+/**
+ * DELETE /projects/:projectId/domains/:hostname
+ * Detach a custom domain from the provider and the project
+ */
+router.delete(
+  '/:projectId/domains/:hostname',
+  verifyOwnership,
+  async (req: Request, res: Response): Promise<void> => {
+    logRequest(req.method, req.path, req.authUser?.id);
+
+    const project = (req as any).project;
+    const hostname = req.params.hostname.toLowerCase();
+
+    if (!project.domains.some((d: any) => d.hostname === hostname)) {
+      sendErrorResponse(res, 404, 'DOMAIN_NOT_FOUND', DOMAIN_NOT_FOUND);
+      return;
+    }
+
+    try {
+      await project.removeDomain(hostname);
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          success: true,
+          message: 'Domain removed',
+        },
+      });
     } catch (error) {
-      if (error instanceof Error && error.name === 'CastError') {
-        sendErrorResponse(res, 404, 'PROJECT_NOT_FOUND', PROJECT_NOT_FOUND);
+      if (error instanceof ProviderError) {
+        sendErrorResponse(
+          res,
+          502,
+          'DEPLOYMENT_FAILED',
+          `${DEPLOYMENT_FAILED}: ${error.message}`
+        );
         return;
       }
 
-      console.error('Error fetching project logs:', error);
-      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to fetch deployment logs');
+      console.error('Error removing domain:', error);
+      sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to remove domain');
     }
   }
 );
@@ -528,8 +1975,13 @@ router.patch('/:projectId', async (req: Request, res: Response): Promise<void> =
     return;
   }
 
-  const { name, description } = validationResult.data;
-  if (typeof name === 'undefined' && typeof description === 'undefined') {
+  const { name, description, defaultBranch, buildConfig } = validationResult.data;
+  if (
+    typeof name === 'undefined' &&
+    typeof description === 'undefined' &&
+    typeof defaultBranch === 'undefined' &&
+    typeof buildConfig === 'undefined'
+  ) {
     sendErrorResponse(res, 400, 'VALIDATION_ERROR', 'No fields to update');
     return;
   }
@@ -552,6 +2004,18 @@ router.patch('/:projectId', async (req: Request, res: Response): Promise<void> =
       return;
     }
 
+    // Checked before any provider call, so a refused request changes nothing
+    const service = project.getDeploymentService();
+    if (buildConfig && (!service.capabilities.buildConfig || !service.updateBuildConfig)) {
+      sendErrorResponse(
+        res,
+        400,
+        'PROVIDER_FEATURE_UNSUPPORTED',
+        `${PROVIDER_FEATURE_UNSUPPORTED}: build configuration`
+      );
+      return;
+    }
+
     if (name && name !== project.name) {
       const existing = await Project.findOne({
         userId: req.authUser.id,
@@ -569,7 +2033,34 @@ router.patch('/:projectId', async (req: Request, res: Response): Promise<void> =
       project.description = description;
     }
 
-    await project.save();
+    // Provider changes are undone if a later step fails, so the provider
+    // never keeps settings the stored project does not have
+    const undo: Array<() => Promise<unknown>> = [];
+    try {
+      if (defaultBranch && defaultBranch !== project.defaultBranch) {
+        const previousBranch = project.defaultBranch;
+        await project.updateProductionBranch(defaultBranch);
+        undo.push(() => project.updateProductionBranch(previousBranch));
+      }
+
+      if (buildConfig && service.updateBuildConfig) {
+        const updateBuildConfig = service.updateBuildConfig.bind(service);
+        const previous = mergeBuildConfig(project.buildConfig, {});
+        const merged = mergeBuildConfig(project.buildConfig, buildConfig);
+        // Before provisioning, the provider deployment is created with the stored config
+        if (project.deploymentId) {
+          const context = await project.getProviderContext();
+          await updateBuildConfig(project.deploymentId, merged, context);
+          undo.push(() => updateBuildConfig(project.deploymentId, previous, context));
+        }
+        project.buildConfig = merged;
+      }
+
+      await project.save();
+    } catch (error) {
+      await undoProviderChanges(undo);
+      throw error;
+    }
 
     res.status(200).json({
       status: 'success',
@@ -583,6 +2074,16 @@ router.patch('/:projectId', async (req: Request, res: Response): Promise<void> =
       return;
     }
 
+    if (error instanceof ProviderError) {
+      sendErrorResponse(
+        res,
+        502,
+        'DEPLOYMENT_FAILED',
+        `${DEPLOYMENT_FAILED}: ${error.message}`
+      );
+      return;
+    }
+
     console.error('Error updating project:', error);
     sendErrorResponse(res, 500, 'SERVER_ERROR', 'Failed to update project');
   }
@@ -621,10 +2122,16 @@ router.delete(
       }
 
       try {
-        const service = project.getDeploymentService() as any;
-        await service.deleteDeployment(project.deploymentId);
+        // Projects whose provisioning never succeeded have nothing on the provider
+        if (project.deploymentId) {
+          const service = project.getDeploymentService();
+          await service.deleteDeployment(
+            project.deploymentId,
+            await project.getProviderContext()
+          );
+        }
       } catch (error) {
-        if (error instanceof CloudflareError || error instanceof NetlifyError) {
+        if (error instanceof ProviderError) {
           sendErrorResponse(
             res,
             502,
@@ -639,7 +2146,19 @@ router.delete(
         return;
       }
 
+      try {
+        await project.removeWebhook();
+      } catch (error) {
+        console.error('Failed to remove GitHub webhook:', error);
+      }
+
       await project.deleteOne();
+      await Deployment.deleteMany({ projectId: project._id });
+      await DeploymentLog.deleteMany({ projectId: project._id });
+      await EnvVar.deleteMany({ projectId: project._id });
+      await Preview.deleteMany({ projectId: project._id });
+      await WebhookDelivery.deleteMany({ projectId: project._id });
+      await DeployQueueItem.deleteMany({ projectId: project._id });
 
       logDeploymentEvent(project._id.toString(), 'delete', 'deleted');
 
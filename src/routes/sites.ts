@@ -0,0 +1,71 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { getLocalService } from '../services/localService';
+
+const router = Router();
+
+async function serveSiteFile(
+  siteId: string,
+  requestPath: string,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const resolved = await getLocalService().resolveSiteFile(siteId, requestPath);
+
+    if (!resolved) {
+      res.status(404).type('text/plain').send('Not found');
+      return;
+    }
+
+    res.status(resolved.status);
+    if (resolved.filePath.endsWith('.html')) {
+      res.setHeader('Cache-Control', 'no-cache');
+    }
+    res.sendFile(resolved.filePath, { dotfiles: 'deny' }, (err) => {
+      if (err && !res.headersSent) {
+        next(err);
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Serve sites from the local provider on <siteId>.<LOCAL_SITES_DOMAIN>
+ * when a sites domain is configured. Other hosts fall through to the API.
+ */
+export function localSiteHost(req: Request, res: Response, next: NextFunction): void {
+  const domain = getLocalService().siteDomain;
+  if (!domain || (req.method !== 'GET' && req.method !== 'HEAD')) {
+    next();
+    return;
+  }
+
+  const suffix = `.${domain}`;
+  const host = req.hostname || '';
+  if (!host.endsWith(suffix)) {
+    next();
+    return;
+  }
+
+  const siteId = host.slice(0, -suffix.length);
+  if (!siteId || siteId.includes('.')) {
+    next();
+    return;
+  }
+
+  void serveSiteFile(siteId, req.path, res, next);
+}
+
+// GET /sites/:siteId -> redirect so relative asset URLs resolve under the site
+router.get('/:siteId', (req: Request, res: Response): void => {
+  res.redirect(301, `${req.baseUrl}/${encodeURIComponent(req.params.siteId)}/`);
+});
+
+// GET /sites/:siteId/*
+router.get('/:siteId/*', (req: Request, res: Response, next: NextFunction): void => {
+  void serveSiteFile(req.params.siteId, '/' + (req.params[0] || ''), res, next);
+});
+
+export default router;
@@ -1,70 +1,130 @@
 import { Router, Request, Response } from 'express';
 import Project from '../models/Project';
-import { logWebhook } from '../utils/logger';
-import { WEBHOOK_SIGNATURE_INVALID, REDEPLOY_TRIGGERED } from '../constants/errors';
+import {
+  acceptDelivery,
+  claimDelivery,
+  pickGitHubHeaders,
+  recordDelivery,
+  releaseDelivery,
+} from '../services/webhookService';
+import { WEBHOOK_SIGNATURE_INVALID } from '../constants/errors';
 
 const router = Router();
 
+const HANDLED_EVENTS = ['push', 'pull_request'];
+
+/**
+ * GitHub delivers either a JSON body or, for the form content type, a
+ * urlencoded body with the JSON document in the `payload` field
+ */
+function parseWebhookPayload(req: Request): any | null {
+  if (req.is('application/x-www-form-urlencoded')) {
+    const raw = req.body?.payload;
+    if (typeof raw !== 'string') {
+      return null;
+    }
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+
+  if (req.is('application/json') && req.body && typeof req.body === 'object') {
+    return req.body;
+  }
+
+  return null;
+}
+
 // POST /webhook/github
 router.post('/github', async (req: Request, res: Response): Promise<void> => {
   try {
     const signature = req.headers['x-hub-signature-256'] as string;
     const eventType = req.headers['x-github-event'] as string;
-    const payload = req.body;
+    const payload = parseWebhookPayload(req);
+
+    const repoFullName = payload?.repository?.full_name;
+    const project = repoFullName
+      ? await Project.findOne({ githubRepo: repoFullName }).select('+webhookSecret')
+      : null;
 
-    if (eventType !== 'push') {
-      res.status(200).json({ success: true, message: 'Event ignored' });
+    // Verify signature over the bytes GitHub sent, captured before body parsing
+    const isValid = project ? project.verifyWebhookSignature(signature, req.rawBody || '') : false;
+
+    if (project && !isValid) {
+      // Anyone can post here: keep only what was decided, never the request content
+      const body = { status: 'error', message: WEBHOOK_SIGNATURE_INVALID };
+      await recordDelivery(
+        project,
+        {
+          event: (eventType || 'unknown').substring(0, 100),
+          headers: {},
+          payload: undefined,
+          signatureValid: false,
+        },
+        { decision: 'invalid_signature', responseCode: 401, body }
+      );
+      res.status(401).json(body);
+      return;
+    }
+
+    const delivery = {
+      deliveryId: req.headers['x-github-delivery'] as string | undefined,
+      event: eventType,
+      headers: pickGitHubHeaders(req.headers),
+      payload,
+      signatureValid: isValid,
+    };
+
+    if (!HANDLED_EVENTS.includes(eventType)) {
+      const body = { success: true, message: 'Event ignored' };
+      if (project) {
+        await recordDelivery(project, delivery, { decision: 'ignored_event', responseCode: 200, body });
+      }
+      res.status(200).json(body);
       return;
     }
 
-    const repoFullName = payload.repository?.full_name;
     if (!repoFullName) {
       res.status(400).json({ status: 'error', message: 'Invalid payload' });
       return;
     }
 
-    const project = await Project.findOne({ githubRepo: repoFullName });
     if (!project) {
       // Return 404 silently for security
       res.status(404).end();
       return;
     }
 
-    // Verify signature
-    // In Express, req.body is already parsed. We use JSON.stringify but 
-    // ideally we should use the raw body for signature verification.
-    const isValid = project.verifyWebhookSignature(signature, JSON.stringify(payload));
-    if (!isValid) {
-      logWebhook(project._id.toString(), eventType, 'invalid_signature', signature || '');
-      res.status(401).json({ status: 'error', message: WEBHOOK_SIGNATURE_INVALID });
+    // GitHub retries a delivery with the same X-GitHub-Delivery id; acknowledge without re-running
+    const { deliveryId } = delivery;
+    if (deliveryId && !(await claimDelivery(project, deliveryId))) {
+      const body = { success: true, message: 'Duplicate delivery ignored' };
+      await recordDelivery(project, delivery, {
+        decision: 'duplicate_delivery',
+        responseCode: 200,
+        body,
+      });
+      res.status(200).json(body);
       return;
     }
 
-    const ref = payload.ref; // 'refs/heads/main'
-    if (!ref) {
-      res.status(400).json({ status: 'error', message: 'Missing ref in payload' });
-      return;
-    }
-    
-    const branch = ref.replace('refs/heads/', '');
-
-    if (branch !== project.defaultBranch) {
-      logWebhook(project._id.toString(), eventType, 'skipped_branch', signature);
-      res.status(200).json({ success: true, message: 'Branch skipped' });
-      return;
+    // Handled by the webhook.process job; the outcome is recorded on the delivery
+    let accepted;
+    try {
+      accepted = await acceptDelivery(project, delivery);
+    } catch (error) {
+      if (deliveryId) {
+        await releaseDelivery(project, deliveryId);
+      }
+      throw error;
     }
 
-    // Trigger redeployment
-    await project.triggerRedeploy();
-    project.status = 'deploying';
-    project.lastDeploymentTime = new Date();
-    await project.save();
-    
-    logWebhook(project._id.toString(), eventType, 'triggered', signature);
-    
-    res.status(200).json({ 
-      success: true, 
-      message: REDEPLOY_TRIGGERED 
+    res.status(202).json({
+      success: true,
+      message: 'Delivery accepted',
+      webhookDeliveryId: accepted._id.toString(),
     });
   } catch (error) {
     console.error('Webhook error:', error);
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { getProviderIds } from '../services/providers';
 
 export const signupSchema = z.object({
   email: z.string().email('Invalid email format'),
@@ -17,38 +18,124 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required').max(200, 'Invalid refresh token'),
+});
+
+const twoFactorCode = z
+  .string()
+  .min(1, 'Code is required')
+  .max(20, 'Invalid code');
+
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCode,
+});
+
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: twoFactorCode,
+});
+
 export const githubAuthSchema = z.object({
   code: z.string().min(1, 'GitHub authorization code is required'),
 });
 
+const branchNameSchema = z
+  .string()
+  .min(1, 'Default branch is required')
+  .max(50, 'Branch name too long')
+  .regex(/^[A-Za-z0-9._\/-]+$/, 'Invalid branch name')
+  .refine((v) => !v.includes('..') && !v.startsWith('/') && !v.endsWith('/'), 'Invalid branch name');
+
 export const webhookConfigSchema = z.object({
-  defaultBranch: z.string().min(1, 'Default branch is required').max(50, 'Branch name too long'),
+  defaultBranch: branchNameSchema,
 });
 
-export type SignupInput = z.infer<typeof signupSchema>;
-export type LoginInput = z.infer<typeof loginSchema>;
-export type GithubAuthInput = z.infer<typeof githubAuthSchema>;
-export type WebhookConfigInput = z.infer<typeof webhookConfigSchema>;
 const githubRepoRegex = /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
 
+// Repository-relative directory; '' resets to the provider default
+const relativeDirSchema = z
+  .string()
+  .max(200)
+  .refine((v) => !v.startsWith('/'), 'Directory must be relative to the repository root')
+  .refine((v) => !v.split('/').includes('..'), 'Directory must not contain ".."');
+
+export const buildConfigSchema = z
+  .object({
+    buildCommand: z.string().max(500).optional(),
+    publishDir: relativeDirSchema.optional(),
+    rootDir: relativeDirSchema.optional(),
+    runtimeVersion: z
+      .string()
+      .regex(/^(v?\d+(\.\d+){0,2}(\.x)?)?$/, 'Invalid Node version, e.g. "20" or "20.11.1"')
+      .optional(),
+  })
+  .strict();
+
 export const createProjectSchema = z.object({
   name: z.string().min(3, 'Name must be at least 3 characters').max(50),
   description: z.string().max(500).optional(),
   githubRepo: z
     .string()
     .regex(githubRepoRegex, 'Invalid GitHub repository format'),
-  deploymentProvider: z.enum(['cloudflare', 'netlify']),
+  deploymentProvider: z.enum(getProviderIds()),
+  // Defaults to the repository's default branch on GitHub
+  defaultBranch: branchNameSchema.optional(),
+  buildConfig: buildConfigSchema.optional(),
 });
 
 export const updateProjectSchema = z
   .object({
     name: z.string().min(3, 'Name must be at least 3 characters').max(50).optional(),
     description: z.string().max(500).optional(),
+    defaultBranch: branchNameSchema.optional(),
+    buildConfig: buildConfigSchema.optional(),
+  })
+  .strict();
+
+const envVarKeySchema = z
+  .string()
+  .max(128, 'Key too long')
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Key must contain only letters, numbers and underscores')
+  .refine((v) => v !== 'NODE_VERSION', 'Set the Node version with buildConfig.runtimeVersion');
+
+export const createEnvVarSchema = z
+  .object({
+    key: envVarKeySchema,
+    value: z.string().min(1, 'Value is required').max(5000, 'Value too long'),
+    environment: z.enum(['production', 'preview']).default('production'),
+  })
+  .strict();
+
+export const updateEnvVarSchema = z
+  .object({
+    value: z.string().min(1, 'Value is required').max(5000, 'Value too long'),
+  })
+  .strict();
+
+const hostnameRegex = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export const addDomainSchema = z
+  .object({
+    hostname: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(hostnameRegex, 'Invalid domain name')
+      .refine(
+        (v) => !/\.(pages\.dev|netlify\.app|vercel\.app|github\.io)$/.test(v),
+        'Provider subdomains are assigned automatically'
+      ),
   })
   .strict();
 
 export type SignupInput = z.infer<typeof signupSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type GithubAuthInput = z.infer<typeof githubAuthSchema>;
+export type WebhookConfigInput = z.infer<typeof webhookConfigSchema>;
+export type BuildConfigInput = z.infer<typeof buildConfigSchema>;
 export type CreateProjectInput = z.infer<typeof createProjectSchema>;
 export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
+export type CreateEnvVarInput = z.infer<typeof createEnvVarSchema>;
+export type UpdateEnvVarInput = z.infer<typeof updateEnvVarSchema>;
+export type AddDomainInput = z.infer<typeof addDomainSchema>;
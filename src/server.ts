@@ -7,10 +7,15 @@ import { initializePassport } from './config/passportConfig';
 import { corsMiddleware } from './middleware/corsMiddleware';
 import { requestLogger } from './middleware/requestLogger';
 import { validateContentType } from './middleware/validateContentType';
+import { captureRawBody } from './middleware/rawBody';
 import { errorHandler } from './middleware/errorHandler';
 import { generalLimiter, authLimiter, githubLimiter } from './middleware/rateLimiter';
-import { authenticateToken } from './middleware/authMiddleware';
+import { authenticateToken, requireAdmin } from './middleware/authMiddleware';
 import { info, error as logError } from './utils/logger';
+import { closeAllStreams } from './utils/sse';
+import { startDeployQueue, stopDeployQueue } from './services/deployQueueService';
+import { startStatusPoller, stopStatusPoller } from './services/statusPollerService';
+import { startJobRunner, stopJobRunner } from './services/jobs';
 import { ERRORS } from './constants/errors';
 
 import authRoutes from './routes/auth';
@@ -19,6 +24,8 @@ import webhookRoutes from './routes/webhooks';
 import projectRoutes from './routes/projects';
 import projectsRoutes from './routes/projects';
 import healthRoutes from './routes/health';
+import adminRoutes from './routes/admin';
+import siteRoutes, { localSiteHost } from './routes/sites';
 
 dotenv.config();
 
@@ -40,10 +47,15 @@ app.use(helmet({
   xssFilter: true,
 }));
 
+// Static sites built by the local provider (served before CORS and body parsing)
+app.use(localSiteHost);
+app.use('/sites', siteRoutes);
+
 app.use(corsMiddleware);
 
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+// Webhook signatures are verified against the raw bytes captured here
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, limit: '10mb', verify: captureRawBody }));
 
 initializePassport();
 app.use(passport.initialize());
@@ -64,6 +76,7 @@ app.get('/api/protected', authenticateToken, (req: Request, res: Response) => {
 app.use('/auth', authLimiter, authRoutes);
 app.use('/github', githubLimiter, authenticateToken, githubRoutes);
 app.use('/projects', generalLimiter, authenticateToken, projectsRoutes);
+app.use('/admin', generalLimiter, authenticateToken, requireAdmin, adminRoutes);
 // Protected route example (for testing auth middleware)
 app.get(
   '/api/protected',
@@ -106,6 +119,10 @@ async function startServer(): Promise<void> {
     await mongoose.connect(MONGODB_URI);
     info('Connected to MongoDB', { uri: MONGODB_URI.replace(/\/\/.*@/, '//***@') });
 
+    startJobRunner();
+    startDeployQueue();
+    startStatusPoller();
+
     const server = app.listen(PORT, () => {
       info(`Server is running`, {
         port: PORT,
@@ -115,11 +132,19 @@ async function startServer(): Promise<void> {
 
     const gracefulShutdown = async (signal: string) => {
       info(`${signal} received, shutting down gracefully...`);
-      
+
+      // Open event streams would keep server.close() waiting
+      closeAllStreams();
+
       server.close(async () => {
         info('HTTP server closed');
         
         try {
+          await stopStatusPoller();
+          await stopDeployQueue();
+          await stopJobRunner();
+          info('Background jobs drained');
+
           await mongoose.connection.close();
           info('MongoDB connection closed');
           process.exit(0);
@@ -1,12 +1,22 @@
-import { Deployment, DeploymentStatus, Log } from '../types';
-
-export class CloudflareError extends Error {
-  constructor(
-    public statusCode: number,
-    public code: string,
-    message: string
-  ) {
-    super(message);
+import {
+  BuildConfig,
+  CreateDeploymentOptions,
+  Deployment,
+  DeploymentProvider,
+  EnvVarSet,
+  PreviewRef,
+  PreviewRequest,
+  DeploymentStatus,
+  DomainStatus,
+  Log,
+  ProviderCapabilities,
+} from '../types';
+import { ProviderError, registerProvider } from './providerRegistry';
+import { inferLogLevel, parseLogLines } from '../utils/logParser';
+
+export class CloudflareError extends ProviderError {
+  constructor(statusCode: number, code: string, message: string) {
+    super(statusCode, code, message);
     this.name = 'CloudflareError';
   }
 }
@@ -29,20 +39,105 @@ function getErrorMessage(payload: any): string {
     : 'Cloudflare API request failed';
 }
 
-function coerceStatus(value: unknown): 'deploying' | 'deployed' | 'failed' {
-  if (typeof value !== 'string') return 'deploying';
-
-  const v = value.toLowerCase();
-  if (v.includes('success') || v.includes('active') || v.includes('ready')) {
-    return 'deployed';
+/**
+ * Pages deployments run through stages (queued, initialize, clone_repo,
+ * build, deploy) and are live once the deploy stage succeeds
+ */
+function deploymentState(deployment: any): 'deploying' | 'deployed' | 'failed' {
+  const stage = deployment?.latest_stage;
+  if (!stage) {
+    return 'deploying';
   }
-  if (v.includes('fail') || v.includes('error')) {
+  if (stage.status === 'failure' || stage.status === 'canceled') {
     return 'failed';
   }
+  if (stage.name === 'deploy' && stage.status === 'success') {
+    return 'deployed';
+  }
   return 'deploying';
 }
 
-export default class CloudflareService {
+function buildConfigPayload(config: BuildConfig): any {
+  const nodeVersion = config.runtimeVersion
+    ? { type: 'plain_text', value: config.runtimeVersion }
+    : null;
+
+  return {
+    build_config: {
+      build_command: config.buildCommand,
+      destination_dir: config.publishDir,
+      root_dir: config.rootDir,
+    },
+    deployment_configs: {
+      production: { env_vars: { NODE_VERSION: nodeVersion } },
+      preview: { env_vars: { NODE_VERSION: nodeVersion } },
+    },
+  };
+}
+
+/**
+ * Cloudflare merges env_vars on PATCH; a null value deletes the variable
+ */
+function envVarsPatch(
+  current: Record<string, unknown> | undefined,
+  desired: Record<string, string>
+): Record<string, { type: string; value: string } | null> {
+  const patch: Record<string, { type: string; value: string } | null> = {};
+
+  for (const key of Object.keys(current || {})) {
+    if (key !== 'NODE_VERSION' && !(key in desired)) {
+      patch[key] = null;
+    }
+  }
+  for (const [key, value] of Object.entries(desired)) {
+    patch[key] = { type: 'secret_text', value };
+  }
+
+  return patch;
+}
+
+function toDomainStatus(domain: any, projectSubdomain: string): DomainStatus {
+  const state = typeof domain?.status === 'string' ? domain.status.toLowerCase() : '';
+  const validation = domain?.validation_data || {};
+  const validationState = typeof validation.status === 'string' ? validation.status.toLowerCase() : '';
+
+  const dnsRecords: DomainStatus['dnsRecords'] = [
+    { type: 'CNAME', name: domain?.name, value: `${projectSubdomain}.pages.dev` },
+  ];
+  if (validation.method === 'txt' && validation.txt_name && validation.txt_value) {
+    dnsRecords.push({ type: 'TXT', name: validation.txt_name, value: validation.txt_value });
+  }
+
+  return {
+    hostname: domain?.name,
+    verificationStatus:
+      state === 'active'
+        ? 'verified'
+        : ['error', 'blocked', 'deactivated'].includes(state)
+          ? 'failed'
+          : 'pending',
+    sslStatus:
+      validationState === 'active'
+        ? 'active'
+        : validationState === 'error'
+          ? 'failed'
+          : 'pending',
+    dnsRecords,
+    message: domain?.verification_data?.error_message || validation.error_message || undefined,
+  };
+}
+
+export default class CloudflareService implements DeploymentProvider {
+  readonly id = 'cloudflare';
+  readonly capabilities: ProviderCapabilities = {
+    rollback: true,
+    logs: true,
+    buildConfig: true,
+    envVars: true,
+    domains: true,
+    previews: true,
+  };
+
   private apiToken: string;
   private accountId: string;
   private baseUrl = 'https://api.cloudflare.com/client/v4';
@@ -68,7 +163,8 @@ export default class CloudflareService {
     const res = await fetch(`${this.baseUrl}${path}`, {
       ...init,
       headers: {
-        'Content-Type': 'application/json',
+        // fetch sets the multipart boundary itself for FormData bodies
+        ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
         Authorization: `Bearer ${this.apiToken}`,
         ...(init.headers || {}),
       },
@@ -104,7 +200,8 @@ export default class CloudflareService {
   async createDeployment(
     projectName: string,
     gitHubRepo: string,
-    gitHubToken: string
+    gitHubToken: string,
+    options: CreateDeploymentOptions = {}
   ): Promise<Deployment> {
     void gitHubToken;
 
@@ -113,23 +210,26 @@ export default class CloudflareService {
       throw new CloudflareError(400, 'INVALID_GITHUB_REPO', 'Invalid GitHub repository format');
     }
 
+    const productionBranch = options.productionBranch || 'main';
+
     const result = await this.request<any>(
       `/accounts/${this.accountId}/pages/projects`,
       {
         method: 'POST',
         body: JSON.stringify({
           name: projectName,
-          production_branch: 'main',
+          production_branch: productionBranch,
           source: {
             type: 'github',
             config: {
               owner,
               repo_name: repo,
-              production_branch: 'main',
+              production_branch: productionBranch,
               deployments_enabled: true,
               pr_comments_enabled: false,
             },
           },
+          ...(options.buildConfig ? buildConfigPayload(options.buildConfig) : {}),
         }),
       }
     );
@@ -137,15 +237,44 @@ export default class CloudflareService {
     const createdAt = result?.created_on ? new Date(result.created_on) : new Date();
     const subdomain = result?.subdomain || projectName;
     const url = `https://${subdomain}.pages.dev`;
+    const name = result?.name || projectName;
+
+    // Start the first production build, so the deployment has an id to track and roll back to
+    const first =
+      (await this.getLatestProductionDeployment(name)) ||
+      (await this.request<any>(`${this.projectPath(name)}/deployments`, {
+        method: 'POST',
+        body: JSON.stringify({}),
+      }));
 
     return {
-      deploymentId: result?.name || projectName,
+      deploymentId: name,
       status: 'deploying',
       url,
       createdAt,
+      providerDeploymentId: first?.id,
     };
   }
 
+  /**
+   * Newest production deployment. The project's latest_deployment also
+   * covers previews, so a branch build would stand for the project's status.
+   */
+  private async getLatestProductionDeployment(deploymentId: string): Promise<any | null> {
+    const deployments = await this.request<any[]>(
+      `${this.projectPath(deploymentId)}/deployments?env=production`,
+      { method: 'GET' }
+    );
+
+    const production = (Array.isArray(deployments) ? deployments : []).filter(
+      (d) => d?.environment === 'production'
+    );
+    production.sort(
+      (a, b) => new Date(b?.created_on || 0).getTime() - new Date(a?.created_on || 0).getTime()
+    );
+    return production[0] || null;
+  }
+
   async getDeploymentStatus(deploymentId: string): Promise<DeploymentStatus> {
     const result = await this.request<any>(
       `/accounts/${this.accountId}/pages/projects/${encodeURIComponent(deploymentId)}`,
@@ -155,15 +284,8 @@ export default class CloudflareService {
     const subdomain = result?.subdomain || deploymentId;
     const url = `https://${subdomain}.pages.dev`;
 
-    const latest = result?.latest_deployment;
-    const stageName =
-      latest?.latest_stage?.name ||
-      latest?.deployment_trigger?.type ||
-      latest?.stage?.name ||
-      latest?.status ||
-      latest?.state;
-
-    const status = coerceStatus(stageName);
+    const latest = await this.getLatestProductionDeployment(deploymentId);
+    const status = deploymentState(latest);
 
     const lastDeployed = latest?.created_on
       ? new Date(latest.created_on)
@@ -181,70 +303,220 @@ export default class CloudflareService {
     };
   }
 
-  async triggerRedeploy(deploymentId: string): Promise<void> {
-    await this.request<any>(
+  async triggerRedeploy(deploymentId: string): Promise<string | undefined> {
+    const result = await this.request<any>(
       `/accounts/${this.accountId}/pages/projects/${encodeURIComponent(deploymentId)}/deployments`,
       {
         method: 'POST',
         body: JSON.stringify({}),
       }
     );
+
+    return result?.id;
   }
 
-  async deleteDeployment(deploymentId: string): Promise<void> {
+  async getBuild(deploymentId: string, providerDeploymentId: string): Promise<Deployment> {
+    const result = await this.request<any>(
+      `${this.projectPath(deploymentId)}/deployments/${encodeURIComponent(providerDeploymentId)}`,
+      { method: 'GET' }
+    );
+
+    return {
+      deploymentId: result?.id || providerDeploymentId,
+      status: deploymentState(result),
+      url: result?.url || '',
+      createdAt: result?.created_on ? new Date(result.created_on) : new Date(),
+    };
+  }
+
+  async rollback(
+    deploymentId: string,
+    providerDeploymentId: string
+  ): Promise<Deployment> {
+    const result = await this.request<any>(
+      `/accounts/${this.accountId}/pages/projects/${encodeURIComponent(deploymentId)}/deployments/${encodeURIComponent(providerDeploymentId)}/rollback`,
+      { method: 'POST' }
+    );
+
+    return {
+      deploymentId: result?.id || providerDeploymentId,
+      status: deploymentState(result),
+      url: result?.url || '',
+      createdAt: result?.created_on ? new Date(result.created_on) : new Date(),
+    };
+  }
+
+  async updateBuildConfig(deploymentId: string, buildConfig: BuildConfig): Promise<void> {
     await this.request<any>(
       `/accounts/${this.accountId}/pages/projects/${encodeURIComponent(deploymentId)}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(buildConfigPayload(buildConfig)),
+      }
+    );
+  }
+
+  /**
+   * Deploying a non-production branch creates a Pages preview deployment
+   */
+  async createPreview(deploymentId: string, preview: PreviewRequest): Promise<Deployment> {
+    const form = new FormData();
+    form.append('branch', preview.branch);
+    form.append('commit_hash', preview.commitSha);
+
+    const result = await this.request<any>(`${this.projectPath(deploymentId)}/deployments`, {
+      method: 'POST',
+      body: form,
+    });
+
+    return {
+      deploymentId: result?.id,
+      status: deploymentState(result),
+      url: result?.aliases?.[0] || result?.url || '',
+      createdAt: result?.created_on ? new Date(result.created_on) : new Date(),
+    };
+  }
+
+  async deletePreview(deploymentId: string, preview: PreviewRef): Promise<void> {
+    if (!preview.providerDeploymentId) {
+      return;
+    }
+
+    try {
+      await this.request<any>(
+        `${this.projectPath(deploymentId)}/deployments/${encodeURIComponent(preview.providerDeploymentId)}?force=true`,
+        { method: 'DELETE' }
+      );
+    } catch (error) {
+      // Already gone
+      if (error instanceof CloudflareError && error.statusCode === 404) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async updateEnvVars(deploymentId: string, envVars: EnvVarSet): Promise<void> {
+    const path = `/accounts/${this.accountId}/pages/projects/${encodeURIComponent(deploymentId)}`;
+    const project = await this.request<any>(path, { method: 'GET' });
+    const configs = project?.deployment_configs || {};
+
+    await this.request<any>(path, {
+      method: 'PATCH',
+      body: JSON.stringify({
+        deployment_configs: {
+          production: { env_vars: envVarsPatch(configs.production?.env_vars, envVars.production) },
+          preview: { env_vars: envVarsPatch(configs.preview?.env_vars, envVars.preview) },
+        },
+      }),
+    });
+  }
+
+  private projectPath(deploymentId: string): string {
+    return `/accounts/${this.accountId}/pages/projects/${encodeURIComponent(deploymentId)}`;
+  }
+
+  private async getSubdomain(deploymentId: string): Promise<string> {
+    const project = await this.request<any>(this.projectPath(deploymentId), { method: 'GET' });
+    return project?.subdomain || deploymentId;
+  }
+
+  async addDomain(deploymentId: string, hostname: string): Promise<DomainStatus> {
+    const domain = await this.request<any>(`${this.projectPath(deploymentId)}/domains`, {
+      method: 'POST',
+      body: JSON.stringify({ name: hostname }),
+    });
+
+    return toDomainStatus(domain, await this.getSubdomain(deploymentId));
+  }
+
+  async getDomain(deploymentId: string, hostname: string): Promise<DomainStatus> {
+    const path = `${this.projectPath(deploymentId)}/domains/${encodeURIComponent(hostname)}`;
+    let domain = await this.request<any>(path, { method: 'GET' });
+
+    // PATCH asks Cloudflare to retry validation of a domain that is not active yet
+    if (domain?.status !== 'active') {
+      domain = await this.request<any>(path, { method: 'PATCH', body: JSON.stringify({}) });
+    }
+
+    return toDomainStatus(domain, await this.getSubdomain(deploymentId));
+  }
+
+  async removeDomain(deploymentId: string, hostname: string): Promise<void> {
+    await this.request<any>(
+      `${this.projectPath(deploymentId)}/domains/${encodeURIComponent(hostname)}`,
       { method: 'DELETE' }
     );
   }
 
-  async getDeploymentLogs(deploymentId: string): Promise<Log[]> {
-    const project = await this.request<any>(
+  async updateProductionBranch(deploymentId: string, branch: string): Promise<void> {
+    await this.request<any>(
       `/accounts/${this.accountId}/pages/projects/${encodeURIComponent(deploymentId)}`,
-      { method: 'GET' }
+      {
+        method: 'PATCH',
+        body: JSON.stringify({
+          production_branch: branch,
+          source: { config: { production_branch: branch } },
+        }),
+      }
     );
+  }
 
-    const latestDeploymentId = project?.latest_deployment?.id;
-    if (!latestDeploymentId) {
-      return [];
-    }
+  async deleteDeployment(deploymentId: string): Promise<void> {
+    await this.request<any>(
+      `/accounts/${this.accountId}/pages/projects/${encodeURIComponent(deploymentId)}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  async getDeploymentLogs(deploymentId: string, providerDeploymentId: string): Promise<Log[]> {
+    const build = await this.getBuild(deploymentId, providerDeploymentId);
 
     const logsPayload = await this.request<any>(
-      `/accounts/${this.accountId}/pages/projects/${encodeURIComponent(deploymentId)}/deployments/${encodeURIComponent(latestDeploymentId)}/logs`,
+      `${this.projectPath(deploymentId)}/deployments/${encodeURIComponent(providerDeploymentId)}/logs`,
       { method: 'GET' }
     );
 
-    const logs: any[] = Array.isArray(logsPayload)
+    // Entries without a timestamp are anchored to the build's creation
+    const startedAt = build.createdAt;
+
+    if (typeof logsPayload === 'string') {
+      return parseLogLines(logsPayload.split('\n'), startedAt);
+    }
+
+    // The API returns { data: [{ ts, line }] }; older responses used { logs }
+    const entries: any[] = Array.isArray(logsPayload)
       ? logsPayload
-      : typeof logsPayload === 'string'
-        ? logsPayload
-            .split('\n')
-            .map((line) => line.trim())
-            .filter((line) => line.length > 0)
-        : logsPayload?.logs || [];
-
-    return logs.map((l: any) => {
-      const message = typeof l === 'string' ? l : l?.message || JSON.stringify(l);
+      : logsPayload?.data || logsPayload?.logs || [];
+
+    // Entries without a timestamp inherit the previous entry's
+    let previous = startedAt;
+    return entries.map((l: any) => {
+      const message =
+        typeof l === 'string' ? l : l?.line ?? l?.message ?? JSON.stringify(l);
       const levelRaw = typeof l === 'object' ? l?.level : undefined;
-      const level =
+      const level: Log['level'] =
         levelRaw === 'warn' || levelRaw === 'error' || levelRaw === 'info'
           ? levelRaw
-          : /\berror\b/i.test(message)
-            ? 'error'
-            : /\bwarn\b/i.test(message)
-              ? 'warn'
-              : 'info';
+          : inferLogLevel(message);
 
-      const timestamp =
-        typeof l === 'object' && l?.timestamp
-          ? new Date(l.timestamp)
-          : new Date();
+      const rawTime = typeof l === 'object' ? l?.ts ?? l?.timestamp : undefined;
+      const parsed = rawTime ? new Date(rawTime) : null;
+      if (parsed && !Number.isNaN(parsed.getTime())) {
+        previous = parsed;
+      }
 
       return {
-        timestamp,
+        timestamp: previous,
         message,
         level,
       };
     });
   }
 }
+
+registerProvider({
+  id: 'cloudflare',
+  displayName: 'Cloudflare Pages',
+  create: () => new CloudflareService(),
+});
@@ -0,0 +1,222 @@
+import { Types } from 'mongoose';
+import Project from '../models/Project';
+import Deployment from '../models/Deployment';
+import DeployQueueItem, { DeployQueueState, IDeployQueueItem } from '../models/DeployQueueItem';
+import { enqueueJob, registerJob } from './jobRunner';
+import { logDeploymentEvent } from '../utils/logger';
+
+interface QueuedDeployPayload {
+  queueItemId: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+/** Give up waiting for a deployment to start and reach a terminal state */
+const RUN_TIMEOUT_MS = 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let currentTick: Promise<void> | null = null;
+
+async function finishItem(
+  item: IDeployQueueItem,
+  status: DeployQueueState,
+  error?: string
+): Promise<void> {
+  item.status = status;
+  item.finishedAt = new Date();
+  if (error) {
+    item.error = error;
+  }
+  await item.save();
+  logDeploymentEvent(item.projectId.toString(), 'queue', status);
+}
+
+/**
+ * Follow a running item's deployment until it is deployed or failed. The
+ * status poller keeps the deployment record current. Returns true while the
+ * item is still in flight.
+ */
+async function checkRunning(item: IDeployQueueItem): Promise<boolean> {
+  const startedAt = (item.startedAt || item.createdAt).getTime();
+  const timedOut = Date.now() - startedAt > RUN_TIMEOUT_MS;
+
+  // Without a deploymentId the deployment.redeploy job has not run yet
+  if (item.deploymentId) {
+    const deployment = await Deployment.findById(item.deploymentId);
+    if (!deployment) {
+      await finishItem(item, 'failed', 'Deployment record not found');
+      return false;
+    }
+
+    // A result that arrived with the timeout still counts
+    if (deployment.isTerminal()) {
+      await finishItem(item, deployment.status === 'deployed' ? 'deployed' : 'failed');
+      return false;
+    }
+  }
+
+  if (timedOut) {
+    await finishItem(item, 'failed', 'Timed out waiting for the deployment to finish');
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Start the newest queued item for a project once its debounce window has
+ * passed. Older queued items are superseded by it. The provider call runs
+ * as a deployment.redeploy job.
+ */
+async function startNext(projectId: Types.ObjectId): Promise<void> {
+  const now = new Date();
+  const next = await DeployQueueItem.findOne({ projectId, status: 'queued' }).sort({
+    createdAt: -1,
+  });
+  if (!next || next.runAfter > now) {
+    return;
+  }
+
+  let item: IDeployQueueItem | null;
+  try {
+    item = await DeployQueueItem.findOneAndUpdate(
+      { _id: next._id, status: 'queued' },
+      { $set: { status: 'running', startedAt: now } },
+      { new: true }
+    );
+  } catch (error) {
+    // Another process started a deploy for this project first
+    if ((error as any)?.code === 11000) {
+      return;
+    }
+    throw error;
+  }
+
+  // Cancelled between the lookup and the claim
+  if (!item) {
+    return;
+  }
+
+  await DeployQueueItem.updateMany(
+    {
+      projectId,
+      status: 'queued',
+      _id: { $ne: item._id },
+      createdAt: { $lte: item.createdAt },
+    },
+    { $set: { status: 'superseded', supersededBy: item._id, finishedAt: now } }
+  );
+
+  try {
+    await enqueueJob<QueuedDeployPayload>('deployment.redeploy', {
+      queueItemId: item._id.toString(),
+    });
+  } catch (error) {
+    await finishItem(item, 'failed', 'Failed to schedule deployment');
+    throw error;
+  }
+}
+
+registerJob<QueuedDeployPayload>({
+  type: 'deployment.redeploy',
+  async handle({ queueItemId }) {
+    const item = await DeployQueueItem.findById(queueItemId);
+    // Finished, cancelled or already started by an earlier attempt
+    if (!item || item.status !== 'running' || item.deploymentId) {
+      return;
+    }
+
+    const project = await Project.findById(item.projectId);
+    if (!project) {
+      await finishItem(item, 'cancelled', 'Project was deleted');
+      return;
+    }
+
+    const deployment = await project.triggerRedeploy({
+      trigger: item.trigger,
+      branch: item.branch,
+      commitSha: item.commitSha,
+      commitMessage: item.commitMessage,
+    });
+    item.deploymentId = deployment._id;
+    await item.save();
+  },
+  async onDead({ queueItemId }, error) {
+    const item = await DeployQueueItem.findById(queueItemId);
+    if (item && item.status === 'running') {
+      await finishItem(item, 'failed', error.message);
+    }
+  },
+});
+
+/**
+ * One pass over all deploy queues: advance running deploys, then start the
+ * next item for every project that has nothing in flight. Rollbacks do not
+ * go through the queue but count as in flight until they settle.
+ */
+export async function processDeployQueue(): Promise<void> {
+  const rollingBack: Types.ObjectId[] = await Deployment.distinct('projectId', {
+    trigger: 'rollback',
+    status: 'deploying',
+  });
+  const busy = new Set<string>(rollingBack.map((projectId) => projectId.toString()));
+
+  const running = await DeployQueueItem.find({ status: 'running' });
+  for (const item of running) {
+    try {
+      if (await checkRunning(item)) {
+        busy.add(item.projectId.toString());
+      }
+    } catch (error) {
+      console.error('Failed to check queued deploy:', error);
+      busy.add(item.projectId.toString());
+    }
+  }
+
+  const ready: Types.ObjectId[] = await DeployQueueItem.distinct('projectId', {
+    status: 'queued',
+    runAfter: { $lte: new Date() },
+  });
+  for (const projectId of ready) {
+    if (busy.has(projectId.toString())) {
+      continue;
+    }
+    try {
+      await startNext(projectId);
+    } catch (error) {
+      console.error('Failed to start queued deploy:', error);
+    }
+  }
+}
+
+function tick(): void {
+  if (currentTick) {
+    return;
+  }
+  currentTick = processDeployQueue()
+    .catch((error) => console.error('Deploy queue error:', error))
+    .finally(() => {
+      currentTick = null;
+    });
+}
+
+export function startDeployQueue(): void {
+  if (timer) {
+    return;
+  }
+  timer = setInterval(tick, POLL_INTERVAL_MS);
+}
+
+/**
+ * Stop polling and wait for the pass in progress, so no deploy is left
+ * half-started on shutdown.
+ */
+export async function stopDeployQueue(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  if (currentTick) {
+    await currentTick;
+  }
+}
@@ -0,0 +1,72 @@
+import Project from '../models/Project';
+import { syncDeploymentLogs } from './deploymentLogService';
+import { enqueueJob, registerJob } from './jobRunner';
+import { logDeploymentEvent } from '../utils/logger';
+
+interface ProjectJobPayload {
+  projectId: string;
+}
+
+registerJob<ProjectJobPayload>({
+  type: 'deployment.create',
+  async handle({ projectId }) {
+    const project = await Project.findById(projectId);
+    if (!project) {
+      return;
+    }
+
+    await project.provisionDeployment();
+    logDeploymentEvent(projectId, 'create', project.status);
+  },
+  async onDead({ projectId }) {
+    const project = await Project.findById(projectId);
+    if (project && !project.deploymentId) {
+      project.status = 'failed';
+      await project.save();
+      logDeploymentEvent(projectId, 'create', 'failed');
+    }
+  },
+});
+
+registerJob<ProjectJobPayload>({
+  type: 'deployment.refresh',
+  maxAttempts: 3,
+  async handle({ projectId }) {
+    const project = await Project.findById(projectId);
+    if (!project) {
+      return;
+    }
+
+    await project.getDeploymentStatus();
+    logDeploymentEvent(projectId, 'status_refresh', project.status);
+
+    // Store the build log as it grows, and in full once the build finishes
+    const latest = await project.getLatestDeployment();
+    if (latest) {
+      try {
+        await syncDeploymentLogs(project, latest, { force: true });
+      } catch (error) {
+        console.error('Failed to sync deployment logs:', error);
+      }
+    }
+  },
+});
+
+/**
+ * Create the provider deployment for a newly saved project in the background
+ */
+export async function enqueueProvisioning(projectId: string): Promise<void> {
+  await enqueueJob<ProjectJobPayload>('deployment.create', { projectId });
+}
+
+/**
+ * Refresh a project's deployment status from its provider. Requests made
+ * while a refresh is already pending are folded into it.
+ */
+export async function enqueueStatusRefresh(projectId: string): Promise<void> {
+  await enqueueJob<ProjectJobPayload>(
+    'deployment.refresh',
+    { projectId },
+    { key: `deployment.refresh:${projectId}` }
+  );
+}
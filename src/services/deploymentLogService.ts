@@ -0,0 +1,159 @@
+import { Types } from 'mongoose';
+import { IProject } from '../models/Project';
+import Deployment, { IDeployment } from '../models/Deployment';
+import DeploymentLog, { IDeploymentLog, LogLevel } from '../models/DeploymentLog';
+
+/** Reads within this long of the last sync are served from the store only */
+const MIN_SYNC_INTERVAL_MS = 5000;
+
+export interface LogFilter {
+  /** Return lines after this line number */
+  after?: number;
+  levels?: LogLevel[];
+  /** Full-text search over the message */
+  search?: string;
+}
+
+export interface LogQuery extends LogFilter {
+  limit: number;
+}
+
+export type LogExportFormat = 'ndjson' | 'text' | 'csv';
+
+export const LOG_EXPORT_FORMATS: Record<
+  LogExportFormat,
+  { contentType: string; extension: string; header?: string }
+> = {
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+  text: { contentType: 'text/plain; charset=utf-8', extension: 'log' },
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+    header: 'seq,timestamp,level,message\r\n',
+  },
+};
+
+/**
+ * Copy new build log lines from the provider into the log store. Logs are
+ * fetched by the deployment's own provider build id; deployments without one
+ * (recorded before ids were tracked) are never synced, since the provider
+ * could only hand back some other build's log. Once a finished build has
+ * been synced, its log is complete and the provider is not asked again.
+ */
+export async function syncDeploymentLogs(
+  project: IProject,
+  deployment: IDeployment,
+  options: { force?: boolean } = {}
+): Promise<void> {
+  if (deployment.logsComplete || !project.deploymentId || !deployment.providerDeploymentId) {
+    return;
+  }
+
+  const lastSync = deployment.logsSyncedAt?.getTime() || 0;
+  if (!options.force && Date.now() - lastSync < MIN_SYNC_INTERVAL_MS) {
+    return;
+  }
+
+  // Read before fetching, so lines written after the build finished are included
+  const finished = deployment.isTerminal();
+
+  const logs = await project
+    .getDeploymentService()
+    .getDeploymentLogs(
+      project.deploymentId,
+      deployment.providerDeploymentId,
+      await project.getProviderContext()
+    );
+
+  const last = await DeploymentLog.findOne({ deploymentId: deployment._id })
+    .sort({ seq: -1 })
+    .select('seq');
+  const start = last ? last.seq + 1 : 0;
+
+  const lines = logs.slice(start).map((log, i) => ({
+    deploymentId: deployment._id,
+    projectId: project._id,
+    seq: start + i,
+    timestamp: log.timestamp,
+    level: log.level,
+    message: log.message,
+  }));
+
+  if (lines.length > 0) {
+    try {
+      await DeploymentLog.insertMany(lines, { ordered: false });
+    } catch (error) {
+      // A concurrent sync stored some of these lines first
+      if ((error as any)?.code !== 11000) {
+        throw error;
+      }
+    }
+  }
+
+  const syncedAt = new Date();
+  await Deployment.updateOne(
+    { _id: deployment._id },
+    { $set: { logsSyncedAt: syncedAt, ...(finished && { logsComplete: true }) } }
+  );
+  deployment.logsSyncedAt = syncedAt;
+  deployment.logsComplete = finished;
+}
+
+function buildLogFilter(deploymentId: Types.ObjectId, query: LogFilter): any {
+  const filter: any = { deploymentId };
+  if (query.after !== undefined) {
+    filter.seq = { $gt: query.after };
+  }
+  if (query.levels && query.levels.length > 0) {
+    filter.level = { $in: query.levels };
+  }
+  if (query.search) {
+    filter.$text = { $search: query.search };
+  }
+  return filter;
+}
+
+/**
+ * Read stored log lines in order, starting after a cursor
+ */
+export async function findDeploymentLogs(
+  deploymentId: Types.ObjectId,
+  query: LogQuery
+): Promise<IDeploymentLog[]> {
+  return DeploymentLog.find(buildLogFilter(deploymentId, query))
+    .sort({ seq: 1 })
+    .limit(query.limit);
+}
+
+/**
+ * Iterate over all matching stored lines in order without loading them at once
+ */
+export function iterateDeploymentLogs(
+  deploymentId: Types.ObjectId,
+  filter: LogFilter
+): AsyncIterable<IDeploymentLog> & { close(): Promise<void> } {
+  return DeploymentLog.find(buildLogFilter(deploymentId, filter)).sort({ seq: 1 }).cursor();
+}
+
+function csvField(value: string): string {
+  // Keep spreadsheet apps from evaluating log text as a formula
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Render one log line, including its line terminator, in an export format
+ */
+export function formatLogLine(log: IDeploymentLog, format: LogExportFormat): string {
+  const timestamp = log.timestamp.toISOString();
+
+  switch (format) {
+    case 'ndjson':
+      return `${JSON.stringify({ seq: log.seq, timestamp, level: log.level, message: log.message })}\n`;
+    case 'csv':
+      return `${log.seq},${timestamp},${log.level},${csvField(log.message)}\r\n`;
+    case 'text':
+    default:
+      return `${timestamp} [${log.level.toUpperCase()}] ${log.message}\n`;
+  }
+}
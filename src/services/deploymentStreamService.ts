@@ -0,0 +1,187 @@
+import { Types } from 'mongoose';
+import Project, { IProject } from '../models/Project';
+import Deployment, { IDeployment } from '../models/Deployment';
+import { findDeploymentLogs, syncDeploymentLogs } from './deploymentLogService';
+import { EventStream } from '../utils/sse';
+
+/**
+ * How often a stream re-reads stored status (written by the status poller)
+ * and stored log lines. Provider log fetches are throttled by the log store.
+ */
+const STATUS_POLL_INTERVAL_MS = 2000;
+
+/** Log lines read from the store per query */
+const LOG_PAGE_SIZE = 500;
+
+/**
+ * Streams end after this long; EventSource reconnects on its own, which
+ * also re-checks the client's token
+ */
+const MAX_STREAM_MS = 30 * 60 * 1000;
+
+const MAX_STREAMS_PER_USER = 10;
+
+const streamsPerUser = new Map<string, number>();
+
+/**
+ * Reserve one of the user's concurrent stream slots. Returns a function that
+ * frees the slot, or null when the user already has too many streams open.
+ */
+export function reserveStream(userId: string): (() => void) | null {
+  const open = streamsPerUser.get(userId) || 0;
+  if (open >= MAX_STREAMS_PER_USER) {
+    return null;
+  }
+  streamsPerUser.set(userId, open + 1);
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    const remaining = (streamsPerUser.get(userId) || 1) - 1;
+    if (remaining > 0) {
+      streamsPerUser.set(userId, remaining);
+    } else {
+      streamsPerUser.delete(userId);
+    }
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Stream a deployment's status transitions and new log lines until it is
+ * deployed or failed. Log events carry their line number as the event id,
+ * so a reconnecting client resumes after the last line it received.
+ */
+export async function streamDeployment(
+  stream: EventStream,
+  project: IProject,
+  deploymentId: Types.ObjectId
+): Promise<void> {
+  const deadline = Date.now() + MAX_STREAM_MS;
+  const resumeFrom = parseInt(stream.lastEventId || '', 10);
+  let lastSeq = Number.isFinite(resumeFrom) ? resumeFrom : undefined;
+  let sentTransitions = 0;
+
+  const sendNewLogs = async (deployment: IDeployment, force: boolean): Promise<void> => {
+    try {
+      await syncDeploymentLogs(project, deployment, { force });
+    } catch (error) {
+      // Transient provider failures should not end the stream
+      console.error('Failed to sync logs for stream:', error);
+    }
+
+    for (;;) {
+      const logs = await findDeploymentLogs(deploymentId, { after: lastSeq, limit: LOG_PAGE_SIZE });
+      for (const log of logs) {
+        stream.send(
+          'log',
+          { timestamp: log.timestamp, level: log.level, message: log.message },
+          log.seq
+        );
+        lastSeq = log.seq;
+      }
+      if (logs.length < LOG_PAGE_SIZE || stream.closed) {
+        return;
+      }
+    }
+  };
+
+  while (!stream.closed && Date.now() < deadline) {
+    const deployment: IDeployment | null = await Deployment.findById(deploymentId);
+    if (!deployment) {
+      stream.send('end', { status: null, reason: 'deleted' });
+      return;
+    }
+
+    for (; sentTransitions < deployment.statusHistory.length; sentTransitions++) {
+      const change = deployment.statusHistory[sentTransitions];
+      stream.send('status', {
+        deploymentId: deployment._id.toString(),
+        status: change.status,
+        at: change.at,
+        url: deployment.url,
+      });
+    }
+
+    if (deployment.isTerminal()) {
+      // Pick up the lines written between the last sync and the end of the build
+      await sendNewLogs(deployment, true);
+      stream.send('end', { status: deployment.status, finishedAt: deployment.finishedAt || null });
+      return;
+    }
+
+    await sendNewLogs(deployment, false);
+    await sleep(STATUS_POLL_INTERVAL_MS);
+  }
+}
+
+interface ProjectSnapshot {
+  projectId: string;
+  name: string;
+  status: string;
+  deploymentUrl: string;
+  lastDeploymentTime: Date | null;
+  statusCheckedAt: Date | null;
+}
+
+function snapshotProject(project: IProject): ProjectSnapshot {
+  return {
+    projectId: project._id.toString(),
+    name: project.name,
+    status: project.status,
+    deploymentUrl: project.deploymentUrl,
+    lastDeploymentTime: project.lastDeploymentTime || null,
+    statusCheckedAt: project.statusCheckedAt || null,
+  };
+}
+
+function statusKey(snapshot: ProjectSnapshot): string {
+  return [
+    snapshot.status,
+    snapshot.deploymentUrl,
+    snapshot.lastDeploymentTime ? snapshot.lastDeploymentTime.getTime() : '',
+  ].join('|');
+}
+
+/**
+ * Stream status changes of all of a user's projects: a 'projects' snapshot
+ * first, then a 'status' event per change and a 'deleted' event per removed
+ * project.
+ */
+export async function streamProjects(stream: EventStream, userId: string): Promise<void> {
+  const deadline = Date.now() + MAX_STREAM_MS;
+  let known: Map<string, string> | null = null;
+
+  while (!stream.closed && Date.now() < deadline) {
+    const projects = await Project.find({ userId })
+      .select('name status deploymentUrl lastDeploymentTime statusCheckedAt createdAt')
+      .sort({ createdAt: -1 });
+    const snapshots = projects.map(snapshotProject);
+
+    if (!known) {
+      stream.send('projects', { projects: snapshots });
+    } else {
+      const seen = new Set<string>();
+      for (const snapshot of snapshots) {
+        seen.add(snapshot.projectId);
+        if (known.get(snapshot.projectId) !== statusKey(snapshot)) {
+          stream.send('status', snapshot);
+        }
+      }
+      for (const projectId of known.keys()) {
+        if (!seen.has(projectId)) {
+          stream.send('deleted', { projectId });
+        }
+      }
+    }
+
+    known = new Map(snapshots.map((snapshot) => [snapshot.projectId, statusKey(snapshot)]));
+    await sleep(STATUS_POLL_INTERVAL_MS);
+  }
+}
@@ -0,0 +1,343 @@
+import {
+  CreateDeploymentOptions,
+  Deployment,
+  DeploymentProvider,
+  DeploymentStatus,
+  Log,
+  ProviderCapabilities,
+  ProviderContext,
+} from '../types';
+import { createOctokitClient } from './githubService';
+import { ProviderError, registerProvider } from './providerRegistry';
+
+/**
+ * GitHub Pages deployment provider
+ * Uses the project owner's GitHub token rather than a server-wide API token.
+ * The provider deployment id is the repository full name ('owner/repo').
+ * Pages build requests return no id, so builds are identified by the commit
+ * they publish.
+ */
+
+export class GitHubPagesError extends ProviderError {
+  constructor(statusCode: number, code: string, message: string) {
+    super(statusCode, code, message);
+    this.name = 'GitHubPagesError';
+  }
+}
+
+function coerceStatus(value: unknown): 'deploying' | 'deployed' | 'failed' {
+  if (typeof value !== 'string') return 'deploying';
+
+  const v = value.toLowerCase();
+  if (v === 'built') {
+    return 'deployed';
+  }
+  if (v === 'errored') {
+    return 'failed';
+  }
+  return 'deploying';
+}
+
+function splitRepo(fullName: string): { owner: string; repo: string } {
+  const [owner, repo] = fullName.split('/');
+  if (!owner || !repo) {
+    throw new GitHubPagesError(400, 'INVALID_GITHUB_REPO', 'Invalid GitHub repository format');
+  }
+  return { owner, repo };
+}
+
+/**
+ * Convert Octokit errors into GitHubPagesError
+ */
+function toPagesError(error: unknown, fallback: string): GitHubPagesError {
+  if (error instanceof GitHubPagesError) {
+    return error;
+  }
+
+  const status = error && typeof error === 'object' && 'status' in error
+    ? (error as any).status
+    : undefined;
+  const message = (error as any)?.response?.data?.message;
+
+  if (status === 401) {
+    return new GitHubPagesError(
+      401,
+      'GITHUB_UNAUTHORIZED',
+      'GitHub authentication token invalid or expired. Please re-authenticate via OAuth.'
+    );
+  }
+
+  if (status === 403) {
+    return new GitHubPagesError(
+      403,
+      'GITHUB_FORBIDDEN',
+      message || 'GitHub API rate limit exceeded or insufficient permissions'
+    );
+  }
+
+  if (status === 404) {
+    return new GitHubPagesError(404, 'GITHUB_NOT_FOUND', message || 'GitHub Pages site not found');
+  }
+
+  return new GitHubPagesError(
+    typeof status === 'number' ? status : 500,
+    'GITHUB_PAGES_API_ERROR',
+    message || fallback
+  );
+}
+
+/**
+ * Commit a Pages build of the branch will publish
+ */
+async function branchHead(
+  octokit: ReturnType<typeof createOctokitClient>,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<string | undefined> {
+  try {
+    const response = await octokit.rest.repos.getBranch({ owner, repo, branch });
+    return response.data.commit.sha;
+  } catch (error) {
+    throw toPagesError(error, 'Failed to read the Pages source branch');
+  }
+}
+
+export default class GitHubPagesService implements DeploymentProvider {
+  readonly id = 'github-pages';
+  readonly capabilities: ProviderCapabilities = {
+    rollback: false,
+    logs: true,
+    buildConfig: false,
+    envVars: false,
+    domains: false,
+    previews: false,
+  };
+  readonly requiresGitHubToken = true;
+
+  private client(context?: ProviderContext) {
+    if (!context?.gitHubToken) {
+      throw new GitHubPagesError(
+        401,
+        'GITHUB_NOT_CONNECTED',
+        'GitHub account not connected. Please authenticate via OAuth.'
+      );
+    }
+    return createOctokitClient(context.gitHubToken);
+  }
+
+  async createDeployment(
+    projectName: string,
+    gitHubRepo: string,
+    gitHubToken: string,
+    options: CreateDeploymentOptions = {}
+  ): Promise<Deployment> {
+    void projectName;
+
+    const { owner, repo } = splitRepo(gitHubRepo);
+    const octokit = this.client({ gitHubToken });
+
+    let htmlUrl = '';
+    try {
+      const response = await octokit.rest.repos.createPagesSite({
+        owner,
+        repo,
+        build_type: 'legacy',
+        source: {
+          branch: options.productionBranch || 'main',
+          path: '/',
+        },
+      });
+      htmlUrl = response.data.html_url || '';
+    } catch (error) {
+      // 409 means Pages is already enabled for this repository
+      if ((error as any)?.status !== 409) {
+        throw toPagesError(error, 'Failed to enable GitHub Pages');
+      }
+      const existing = await octokit.rest.repos.getPages({ owner, repo });
+      htmlUrl = existing.data.html_url || '';
+    }
+
+    try {
+      await octokit.rest.repos.requestPagesBuild({ owner, repo });
+    } catch (error) {
+      throw toPagesError(error, 'Failed to request GitHub Pages build');
+    }
+
+    return {
+      deploymentId: gitHubRepo,
+      status: 'deploying',
+      url: htmlUrl || `https://${owner.toLowerCase()}.github.io/${repo}/`,
+      createdAt: new Date(),
+      providerDeploymentId: await branchHead(octokit, owner, repo, options.productionBranch || 'main'),
+    };
+  }
+
+  async getDeploymentStatus(
+    deploymentId: string,
+    context?: ProviderContext
+  ): Promise<DeploymentStatus> {
+    const { owner, repo } = splitRepo(deploymentId);
+    const octokit = this.client(context);
+
+    try {
+      const pages = await octokit.rest.repos.getPages({ owner, repo });
+      const url = pages.data.html_url || '';
+
+      let latest: any = null;
+      try {
+        latest = (await octokit.rest.repos.getLatestPagesBuild({ owner, repo })).data;
+      } catch (error) {
+        if ((error as any)?.status !== 404) {
+          throw error;
+        }
+      }
+
+      const status = coerceStatus(latest?.status || pages.data.status);
+      const lastDeployed = latest?.updated_at
+        ? new Date(latest.updated_at)
+        : latest?.created_at
+          ? new Date(latest.created_at)
+          : new Date(0);
+
+      return {
+        status,
+        url,
+        lastDeployed,
+        deploymentUrl: url,
+      };
+    } catch (error) {
+      throw toPagesError(error, 'Failed to fetch GitHub Pages status');
+    }
+  }
+
+  async triggerRedeploy(
+    deploymentId: string,
+    context?: ProviderContext
+  ): Promise<string | undefined> {
+    const { owner, repo } = splitRepo(deploymentId);
+    const octokit = this.client(context);
+
+    try {
+      await octokit.rest.repos.requestPagesBuild({ owner, repo });
+    } catch (error) {
+      throw toPagesError(error, 'Failed to request GitHub Pages build');
+    }
+
+    // Pages build requests are queued without an id; the build shows up in listPagesBuilds later
+    if (context?.commitSha) {
+      return context.commitSha;
+    }
+    return context?.branch ? branchHead(octokit, owner, repo, context.branch) : undefined;
+  }
+
+  /**
+   * Newest Pages build of the commit; 'deploying' until it shows up
+   */
+  async getBuild(
+    deploymentId: string,
+    providerDeploymentId: string,
+    context?: ProviderContext
+  ): Promise<Deployment> {
+    const build = await this.findBuild(deploymentId, providerDeploymentId, context);
+
+    return {
+      deploymentId: providerDeploymentId,
+      status: coerceStatus(build?.status),
+      url: '',
+      createdAt: build?.created_at ? new Date(build.created_at) : new Date(),
+    };
+  }
+
+  private async findBuild(
+    deploymentId: string,
+    commitSha: string,
+    context?: ProviderContext
+  ): Promise<any | null> {
+    const { owner, repo } = splitRepo(deploymentId);
+    const octokit = this.client(context);
+
+    try {
+      const response = await octokit.rest.repos.listPagesBuilds({ owner, repo, per_page: 30 });
+      return response.data.find((build: any) => build.commit === commitSha) || null;
+    } catch (error) {
+      if ((error as any)?.status === 404) {
+        return null;
+      }
+      throw toPagesError(error, 'Failed to fetch GitHub Pages builds');
+    }
+  }
+
+  async updateProductionBranch(
+    deploymentId: string,
+    branch: string,
+    context?: ProviderContext
+  ): Promise<void> {
+    const { owner, repo } = splitRepo(deploymentId);
+    const octokit = this.client(context);
+
+    try {
+      await octokit.rest.repos.updateInformationAboutPagesSite({
+        owner,
+        repo,
+        source: { branch, path: '/' },
+      });
+    } catch (error) {
+      throw toPagesError(error, 'Failed to update GitHub Pages source branch');
+    }
+  }
+
+  async deleteDeployment(deploymentId: string, context?: ProviderContext): Promise<void> {
+    const { owner, repo } = splitRepo(deploymentId);
+    const octokit = this.client(context);
+
+    try {
+      await octokit.rest.repos.deletePagesSite({ owner, repo });
+    } catch (error) {
+      // Already disabled
+      if ((error as any)?.status === 404) {
+        return;
+      }
+      throw toPagesError(error, 'Failed to disable GitHub Pages');
+    }
+  }
+
+  /**
+   * Pages keeps no build output, only the build's status and error message
+   */
+  async getDeploymentLogs(
+    deploymentId: string,
+    providerDeploymentId: string,
+    context?: ProviderContext
+  ): Promise<Log[]> {
+    const build = await this.findBuild(deploymentId, providerDeploymentId, context);
+    if (!build) {
+      return [];
+    }
+
+    const timestamp = new Date(build.updated_at || build.created_at);
+    const logs: Log[] = [
+      {
+        timestamp,
+        message: `Pages build ${build.status} for commit ${providerDeploymentId.substring(0, 7)} (${build.duration ?? 0}ms)`,
+        level: build.status === 'errored' ? 'error' : 'info',
+      },
+    ];
+
+    if (build.error?.message) {
+      logs.push({
+        timestamp,
+        message: build.error.message,
+        level: 'error',
+      });
+    }
+
+    return logs;
+  }
+}
+
+registerProvider({
+  id: 'github-pages',
+  displayName: 'GitHub Pages',
+  create: () => new GitHubPagesService(),
+});
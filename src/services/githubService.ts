@@ -117,6 +117,61 @@ export async function getRepositories(
   }
 }
 
+/**
+ * Get a repository's default branch
+ * @param accessToken - GitHub access token
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @returns Default branch name
+ * @throws GitHubError for API errors
+ */
+export async function getDefaultBranch(
+  accessToken: string,
+  owner: string,
+  repo: string
+): Promise<string> {
+  try {
+    const octokit = createOctokitClient(accessToken);
+
+    const response = await octokit.rest.repos.get({
+      owner,
+      repo,
+    });
+
+    return response.data.default_branch || 'main';
+  } catch (error) {
+    if (error && typeof error === 'object' && 'status' in error) {
+      const status = (error as any).status;
+
+      if (status === 401) {
+        throw new GitHubError(
+          401,
+          'GITHUB_UNAUTHORIZED',
+          'GitHub authentication token invalid or expired. Please re-authenticate via OAuth.'
+        );
+      }
+
+      if (status === 403) {
+        const message =
+          (error as any).response?.data?.message ||
+          'GitHub API rate limit exceeded or insufficient permissions';
+        throw new GitHubError(403, 'GITHUB_FORBIDDEN', message);
+      }
+
+      if (status === 404) {
+        throw new GitHubError(404, 'GITHUB_NOT_FOUND', 'Repository not found');
+      }
+    }
+
+    console.error('Error fetching repository:', error);
+    throw new GitHubError(
+      500,
+      'SERVER_ERROR',
+      'Failed to fetch repository from GitHub'
+    );
+  }
+}
+
 /**
  * Get repository content (file or directory)
  * @param accessToken - GitHub access token
@@ -436,10 +491,295 @@ export async function getLatestRelease(
   }
 }
 
+export type GitHubDeploymentState =
+  | 'queued'
+  | 'in_progress'
+  | 'success'
+  | 'failure'
+  | 'error'
+  | 'inactive';
+
+export interface GitHubDeploymentOptions {
+  ref: string;
+  environment: string;
+  description?: string;
+  /** Preview environments that go away, e.g. per pull request */
+  transient?: boolean;
+}
+
+export interface GitHubDeploymentStatusOptions {
+  state: GitHubDeploymentState;
+  environmentUrl?: string;
+  description?: string;
+}
+
+/**
+ * Convert Octokit errors into GitHubError
+ */
+function toGitHubApiError(error: unknown, fallback: string): GitHubError {
+  if (error instanceof GitHubError) {
+    return error;
+  }
+
+  const status = error && typeof error === 'object' && 'status' in error
+    ? (error as any).status
+    : undefined;
+
+  if (status === 401) {
+    return new GitHubError(
+      401,
+      'GITHUB_UNAUTHORIZED',
+      'GitHub authentication token invalid or expired. Please re-authenticate via OAuth.'
+    );
+  }
+
+  if (status === 403 || status === 404) {
+    const message =
+      (error as any).response?.data?.message ||
+      'GitHub API rate limit exceeded or insufficient permissions';
+    return new GitHubError(status, status === 403 ? 'GITHUB_FORBIDDEN' : 'GITHUB_NOT_FOUND', message);
+  }
+
+  return new GitHubError(
+    typeof status === 'number' ? status : 500,
+    'GITHUB_API_ERROR',
+    (error as any)?.response?.data?.message || fallback
+  );
+}
+
+/**
+ * Create a GitHub Deployment for a ref
+ * @param accessToken - GitHub access token
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param options - Ref, environment and description
+ * @returns GitHub deployment id
+ * @throws GitHubError for API errors
+ */
+export async function createGitHubDeployment(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  options: GitHubDeploymentOptions
+): Promise<number> {
+  try {
+    const octokit = createOctokitClient(accessToken);
+
+    const response = await octokit.rest.repos.createDeployment({
+      owner,
+      repo,
+      ref: options.ref,
+      environment: options.environment,
+      description: options.description,
+      transient_environment: options.transient || false,
+      production_environment: !options.transient,
+      // The build already happened on our side; skip merging and status checks
+      auto_merge: false,
+      required_contexts: [],
+    });
+
+    if (response.status === 201 && 'id' in response.data) {
+      return response.data.id;
+    }
+
+    throw new GitHubError(
+      response.status,
+      'GITHUB_API_ERROR',
+      (response.data as any)?.message || 'Failed to create GitHub deployment'
+    );
+  } catch (error) {
+    throw toGitHubApiError(error, 'Failed to create GitHub deployment');
+  }
+}
+
+/**
+ * Add a status to a GitHub Deployment
+ * @param accessToken - GitHub access token
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param deploymentId - GitHub deployment id
+ * @param options - State, environment URL and description
+ * @throws GitHubError for API errors
+ */
+export async function createGitHubDeploymentStatus(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  deploymentId: number,
+  options: GitHubDeploymentStatusOptions
+): Promise<void> {
+  try {
+    const octokit = createOctokitClient(accessToken);
+
+    await octokit.rest.repos.createDeploymentStatus({
+      owner,
+      repo,
+      deployment_id: deploymentId,
+      state: options.state,
+      environment_url: options.environmentUrl || undefined,
+      description: options.description?.substring(0, 140),
+    });
+  } catch (error) {
+    throw toGitHubApiError(error, 'Failed to create GitHub deployment status');
+  }
+}
+
+export interface RepoWebhookConfig {
+  url: string;
+  secret: string;
+  events: string[];
+}
+
+export interface RepoWebhook {
+  id: number;
+  url: string;
+  contentType: string;
+  events: string[];
+  active: boolean;
+}
+
+function toRepoWebhook(hook: any): RepoWebhook {
+  return {
+    id: hook.id,
+    url: hook.config?.url || '',
+    contentType: hook.config?.content_type || '',
+    events: hook.events || [],
+    active: Boolean(hook.active),
+  };
+}
+
+/**
+ * List a repository's webhooks
+ * @param accessToken - GitHub access token
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @returns Webhooks (secrets are never returned by GitHub)
+ * @throws GitHubError for API errors
+ */
+export async function listRepoWebhooks(
+  accessToken: string,
+  owner: string,
+  repo: string
+): Promise<RepoWebhook[]> {
+  try {
+    const octokit = createOctokitClient(accessToken);
+    const response = await octokit.rest.repos.listWebhooks({ owner, repo, per_page: 100 });
+    return response.data.map(toRepoWebhook);
+  } catch (error) {
+    throw toGitHubApiError(error, 'Failed to list repository webhooks');
+  }
+}
+
+/**
+ * Create a repository webhook delivering JSON payloads
+ * @param accessToken - GitHub access token
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param config - Payload URL, secret and subscribed events
+ * @returns Created webhook
+ * @throws GitHubError for API errors
+ */
+export async function createRepoWebhook(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  config: RepoWebhookConfig
+): Promise<RepoWebhook> {
+  try {
+    const octokit = createOctokitClient(accessToken);
+    const response = await octokit.rest.repos.createWebhook({
+      owner,
+      repo,
+      name: 'web',
+      active: true,
+      events: config.events,
+      config: {
+        url: config.url,
+        content_type: 'json',
+        secret: config.secret,
+        insecure_ssl: '0',
+      },
+    });
+    return toRepoWebhook(response.data);
+  } catch (error) {
+    throw toGitHubApiError(error, 'Failed to create repository webhook');
+  }
+}
+
+/**
+ * Overwrite an existing webhook's URL, secret and events, and re-activate it
+ * @param accessToken - GitHub access token
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param hookId - Webhook id
+ * @param config - Payload URL, secret and subscribed events
+ * @returns Updated webhook
+ * @throws GitHubError for API errors
+ */
+export async function updateRepoWebhook(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  hookId: number,
+  config: RepoWebhookConfig
+): Promise<RepoWebhook> {
+  try {
+    const octokit = createOctokitClient(accessToken);
+    const response = await octokit.rest.repos.updateWebhook({
+      owner,
+      repo,
+      hook_id: hookId,
+      active: true,
+      events: config.events,
+      config: {
+        url: config.url,
+        content_type: 'json',
+        secret: config.secret,
+        insecure_ssl: '0',
+      },
+    });
+    return toRepoWebhook(response.data);
+  } catch (error) {
+    throw toGitHubApiError(error, 'Failed to update repository webhook');
+  }
+}
+
+/**
+ * Delete a repository webhook. Missing hooks are ignored.
+ * @param accessToken - GitHub access token
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param hookId - Webhook id
+ * @throws GitHubError for API errors
+ */
+export async function deleteRepoWebhook(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  hookId: number
+): Promise<void> {
+  try {
+    const octokit = createOctokitClient(accessToken);
+    await octokit.rest.repos.deleteWebhook({ owner, repo, hook_id: hookId });
+  } catch (error) {
+    if ((error as any)?.status === 404) {
+      return;
+    }
+    throw toGitHubApiError(error, 'Failed to delete repository webhook');
+  }
+}
+
 export default {
   getRepositories,
+  getDefaultBranch,
   getRepoContent,
   getRawFile,
   triggerRepositoryDispatch,
   getLatestRelease,
+  createGitHubDeployment,
+  createGitHubDeploymentStatus,
+  listRepoWebhooks,
+  createRepoWebhook,
+  updateRepoWebhook,
+  deleteRepoWebhook,
 };
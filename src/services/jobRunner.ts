@@ -0,0 +1,254 @@
+import os from 'os';
+import Job, { IJob } from '../models/Job';
+import DeadJob from '../models/DeadJob';
+import { error as logError, info } from '../utils/logger';
+
+export interface JobDefinition<T = any> {
+  type: string;
+  /** Attempts before the job is moved to the dead-letter collection (default 5) */
+  maxAttempts?: number;
+  handle(payload: T, job: IJob): Promise<void>;
+  /** Called once when the job is dead-lettered, e.g. to mark its subject failed */
+  onDead?(payload: T, error: Error): Promise<void>;
+}
+
+export interface EnqueueOptions {
+  /** Skip enqueueing when a pending job with this key already exists */
+  key?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+const CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2', 10));
+const POLL_INTERVAL_MS = 1000;
+const LEASE_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 10 * 1000;
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+const definitions = new Map<string, JobDefinition>();
+
+let stopping = false;
+let workers: Promise<void>[] = [];
+
+/**
+ * Register a job handler. Called once by each module that defines jobs.
+ */
+export function registerJob<T>(definition: JobDefinition<T>): void {
+  if (definitions.has(definition.type)) {
+    throw new Error(`Job type "${definition.type}" is already registered`);
+  }
+  definitions.set(definition.type, definition);
+}
+
+/**
+ * Add a job to the queue. Returns null when a pending job with the same key
+ * already exists.
+ */
+export async function enqueueJob<T>(
+  type: string,
+  payload: T,
+  options: EnqueueOptions = {}
+): Promise<IJob | null> {
+  const definition = definitions.get(type);
+  if (!definition) {
+    throw new Error(`Unknown job type "${type}"`);
+  }
+
+  try {
+    return await Job.create({
+      type,
+      payload,
+      key: options.key,
+      maxAttempts: options.maxAttempts || definition.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt || new Date(),
+    });
+  } catch (error) {
+    if (options.key && (error as any)?.code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Re-enqueue a dead job with a fresh set of attempts. Returns null when the
+ * dead job was already retried.
+ */
+export async function retryDeadJob(deadJobId: string): Promise<IJob | null> {
+  const dead = await DeadJob.findOneAndUpdate(
+    { _id: deadJobId, retriedAt: { $exists: false } },
+    { $set: { retriedAt: new Date() } },
+    { new: true }
+  );
+  if (!dead) {
+    return null;
+  }
+
+  const job = await Job.create({
+    type: dead.type,
+    payload: dead.payload,
+    maxAttempts: dead.maxAttempts,
+    runAt: new Date(),
+  });
+
+  dead.retryJobId = job._id;
+  await dead.save();
+
+  return job;
+}
+
+function backoffMs(attempts: number): number {
+  return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Lease the next due job: pending jobs whose runAt has passed, or running
+ * jobs whose worker stopped renewing the lease
+ */
+async function claimNext(): Promise<IJob | null> {
+  const now = new Date();
+  return Job.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending', runAt: { $lte: now } },
+        { status: 'running', lockedUntil: { $lt: now } },
+      ],
+    },
+    {
+      $set: {
+        status: 'running',
+        lockedBy: WORKER_ID,
+        lockedUntil: new Date(now.getTime() + LEASE_MS),
+      },
+      $inc: { attempts: 1 },
+    },
+    { new: true, sort: { runAt: 1 } }
+  );
+}
+
+async function deadLetter(job: IJob, error: Error): Promise<void> {
+  await DeadJob.create({
+    jobId: job._id,
+    type: job.type,
+    payload: job.payload,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: error.message,
+    failedAt: new Date(),
+  });
+  await Job.deleteOne({ _id: job._id });
+  logError(`Job ${job.type} moved to dead-letter queue`, error);
+
+  const definition = definitions.get(job.type);
+  if (definition?.onDead) {
+    try {
+      await definition.onDead(job.payload, error);
+    } catch (hookError) {
+      logError(`Dead-letter hook for ${job.type} failed`, hookError);
+    }
+  }
+}
+
+async function handleFailure(job: IJob, error: Error): Promise<void> {
+  if (job.attempts >= job.maxAttempts) {
+    await deadLetter(job, error);
+    return;
+  }
+
+  try {
+    await Job.updateOne(
+      { _id: job._id, lockedBy: WORKER_ID },
+      {
+        $set: {
+          status: 'pending',
+          runAt: new Date(Date.now() + backoffMs(job.attempts)),
+          lastError: error.message,
+        },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      }
+    );
+  } catch (updateError) {
+    // A newer pending job with the same key already covers this work
+    if ((updateError as any)?.code === 11000) {
+      await Job.deleteOne({ _id: job._id });
+      return;
+    }
+    throw updateError;
+  }
+}
+
+async function runJob(job: IJob): Promise<void> {
+  const definition = definitions.get(job.type);
+  if (!definition) {
+    await deadLetter(job, new Error(`No handler registered for job type "${job.type}"`));
+    return;
+  }
+
+  // Renew the lease while the handler runs so no other worker picks the job up
+  const heartbeat = setInterval(() => {
+    Job.updateOne(
+      { _id: job._id, lockedBy: WORKER_ID },
+      { $set: { lockedUntil: new Date(Date.now() + LEASE_MS) } }
+    ).catch((error) => logError('Failed to renew job lease', error));
+  }, LEASE_MS / 2);
+
+  try {
+    await definition.handle(job.payload, job);
+    await Job.updateOne(
+      { _id: job._id, lockedBy: WORKER_ID },
+      {
+        $set: { status: 'completed', completedAt: new Date() },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      }
+    );
+  } catch (error) {
+    await handleFailure(job, error instanceof Error ? error : new Error(String(error)));
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function workLoop(): Promise<void> {
+  while (!stopping) {
+    let job: IJob | null = null;
+    try {
+      job = await claimNext();
+      if (job) {
+        await runJob(job);
+      }
+    } catch (error) {
+      logError('Job runner error', error);
+    }
+
+    if (!job) {
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+export function startJobRunner(): void {
+  if (workers.length > 0) {
+    return;
+  }
+  stopping = false;
+  for (let i = 0; i < CONCURRENCY; i++) {
+    workers.push(workLoop());
+  }
+  info('Job runner started', { workerId: WORKER_ID, concurrency: CONCURRENCY });
+}
+
+/**
+ * Stop claiming jobs and wait for the ones in progress to finish. Jobs cut
+ * off by a forced exit are picked up again when their lease expires.
+ */
+export async function stopJobRunner(): Promise<void> {
+  stopping = true;
+  await Promise.all(workers);
+  workers = [];
+}
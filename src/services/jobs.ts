@@ -0,0 +1,10 @@
+/**
+ * Modules that define background jobs register them on import.
+ * Import job helpers from here so handlers are always registered before use.
+ */
+import './deploymentJobs';
+import './deployQueueService';
+import './webhookService';
+
+export * from './jobRunner';
+export { enqueueProvisioning, enqueueStatusRefresh } from './deploymentJobs';
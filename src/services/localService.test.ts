@@ -0,0 +1,144 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import LocalService, { resolveInside } from './localService';
+
+let tmp: string;
+
+beforeEach(async () => {
+  tmp = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'luxehost-local-')));
+});
+
+afterEach(async () => {
+  await fs.rm(tmp, { recursive: true, force: true });
+});
+
+describe('resolveInside', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = path.join(tmp, 'repo');
+    await fs.mkdir(path.join(repo, 'dist'), { recursive: true });
+  });
+
+  it('resolves directories inside the checkout', async () => {
+    await expect(resolveInside(repo, 'dist')).resolves.toBe(path.join(repo, 'dist'));
+    await expect(resolveInside(repo, '')).resolves.toBe(repo);
+    await expect(resolveInside(repo, './dist/../dist')).resolves.toBe(path.join(repo, 'dist'));
+  });
+
+  it('allows directories the build has not created yet', async () => {
+    await expect(resolveInside(repo, 'build/out')).resolves.toBe(path.join(repo, 'build', 'out'));
+  });
+
+  it('refuses paths that escape the checkout', async () => {
+    await expect(resolveInside(repo, '..')).rejects.toThrow('must be inside the repository');
+    await expect(resolveInside(repo, '../other')).rejects.toThrow('must be inside the repository');
+    await expect(resolveInside(repo, '/etc')).rejects.toThrow('must be inside the repository');
+  });
+
+  it('refuses symlinks that point outside the checkout', async () => {
+    await fs.mkdir(path.join(tmp, 'outside'));
+    await fs.symlink(path.join(tmp, 'outside'), path.join(repo, 'link'));
+
+    await expect(resolveInside(repo, 'link')).rejects.toThrow('must be inside the repository');
+    await expect(resolveInside(repo, 'link/missing')).rejects.toThrow(
+      'must be inside the repository'
+    );
+  });
+
+  it('follows symlinks that stay inside the checkout', async () => {
+    await fs.symlink(path.join(repo, 'dist'), path.join(repo, 'public'));
+    await expect(resolveInside(repo, 'public')).resolves.toBe(path.join(repo, 'dist'));
+  });
+});
+
+describe('LocalService.resolveSiteFile', () => {
+  const siteId = 'my-site';
+  let service: LocalService;
+  let output: string;
+
+  beforeEach(async () => {
+    const rootDir = path.join(tmp, 'sites');
+    const siteDir = path.join(rootDir, siteId);
+    output = path.join(siteDir, 'builds', 'b1', 'output');
+
+    await fs.mkdir(path.join(output, 'docs'), { recursive: true });
+    await fs.writeFile(path.join(output, 'index.html'), 'home');
+    await fs.writeFile(path.join(output, 'about.html'), 'about');
+    await fs.writeFile(path.join(output, 'docs', 'index.html'), 'docs');
+    await fs.writeFile(path.join(output, '404.html'), 'not found');
+    await fs.writeFile(path.join(tmp, 'secret.txt'), 'secret');
+    await fs.writeFile(
+      path.join(siteDir, 'site.json'),
+      JSON.stringify({
+        id: siteId,
+        name: siteId,
+        repo: 'owner/repo',
+        createdAt: new Date().toISOString(),
+        current: 'b1',
+        builds: [
+          { id: 'b1', state: 'success', branch: 'main', createdAt: new Date().toISOString() },
+        ],
+      })
+    );
+
+    service = new LocalService({ rootDir });
+  });
+
+  it('serves files, directory indexes and extensionless HTML', async () => {
+    await expect(service.resolveSiteFile(siteId, '/')).resolves.toEqual({
+      filePath: path.join(output, 'index.html'),
+      status: 200,
+    });
+    await expect(service.resolveSiteFile(siteId, '/docs/')).resolves.toEqual({
+      filePath: path.join(output, 'docs', 'index.html'),
+      status: 200,
+    });
+    await expect(service.resolveSiteFile(siteId, '/about')).resolves.toEqual({
+      filePath: path.join(output, 'about.html'),
+      status: 200,
+    });
+  });
+
+  it('falls back to 404.html for missing files', async () => {
+    await expect(service.resolveSiteFile(siteId, '/missing')).resolves.toEqual({
+      filePath: path.join(output, '404.html'),
+      status: 404,
+    });
+  });
+
+  it('keeps traversal attempts inside the artifact', async () => {
+    for (const requestPath of ['/../../../secret.txt', '/%2e%2e/%2e%2e/%2e%2e/secret.txt']) {
+      const resolved = await service.resolveSiteFile(siteId, requestPath);
+      expect(resolved?.filePath).not.toBe(path.join(tmp, 'secret.txt'));
+      expect(resolved?.status).toBe(404);
+    }
+  });
+
+  it('refuses symlinks to files outside the artifact', async () => {
+    await fs.symlink(path.join(tmp, 'secret.txt'), path.join(output, 'leak.txt'));
+    await fs.symlink(tmp, path.join(output, 'leakdir'));
+
+    await expect(service.resolveSiteFile(siteId, '/leak.txt')).resolves.toEqual({
+      filePath: path.join(output, '404.html'),
+      status: 404,
+    });
+    await expect(service.resolveSiteFile(siteId, '/leakdir/secret.txt')).resolves.toEqual({
+      filePath: path.join(output, '404.html'),
+      status: 404,
+    });
+  });
+
+  it('refuses an artifact whose 404 page links outside it', async () => {
+    await fs.rm(path.join(output, '404.html'));
+    await fs.symlink(path.join(tmp, 'secret.txt'), path.join(output, '404.html'));
+
+    await expect(service.resolveSiteFile(siteId, '/missing')).resolves.toBeNull();
+  });
+
+  it('returns null for invalid site ids and sites without an artifact', async () => {
+    await expect(service.resolveSiteFile('../etc', '/')).resolves.toBeNull();
+    await expect(service.resolveSiteFile('unknown', '/')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,894 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  BuildConfig,
+  CreateDeploymentOptions,
+  Deployment,
+  DeploymentProvider,
+  DeploymentStatus,
+  Log,
+  ProviderCapabilities,
+  ProviderContext,
+} from '../types';
+import { getProvider, ProviderError, registerProvider } from './providerRegistry';
+
+/**
+ * Self-hosted static site provider
+ * Clones the repository, runs the build command in a Docker container and
+ * keeps each build's output directory on disk as a versioned artifact. The
+ * current artifact is served by routes/sites.ts.
+ *
+ * Disk layout under LOCAL_SITES_ROOT:
+ *   <siteId>/site.json                  manifest (builds, current artifact)
+ *   <siteId>/builds/<buildId>/build.log build output, one JSON log entry per line
+ *   <siteId>/builds/<buildId>/output/   published files
+ *   <siteId>/work/<buildId>/            temporary checkout, removed after the build
+ */
+
+export class LocalBuildError extends ProviderError {
+  constructor(statusCode: number, code: string, message: string) {
+    super(statusCode, code, message);
+    this.name = 'LocalBuildError';
+  }
+}
+
+type BuildState = 'queued' | 'building' | 'success' | 'failed';
+
+interface LocalBuild {
+  id: string;
+  state: BuildState;
+  branch: string;
+  commitSha?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  pruned?: boolean;
+}
+
+interface LocalSite {
+  id: string;
+  name: string;
+  repo: string;
+  createdAt: string;
+  productionBranch?: string;
+  buildConfig?: BuildConfig;
+  current?: string;
+  currentActivatedAt?: string;
+  builds: LocalBuild[];
+}
+
+export interface LocalServiceOptions {
+  rootDir: string;
+  buildCommand: string;
+  publishDir: string;
+  buildTimeoutMs: number;
+  maxArtifacts: number;
+  siteUrlTemplate: string;
+  siteDomain: string;
+  /** Build image; {version} is replaced by the Node version */
+  buildImage: string;
+  defaultNodeVersion: string;
+  /** uid:gid the build runs as inside the container */
+  buildUser: string;
+  buildMemory: string;
+  buildCpus: string;
+  buildPidsLimit: number;
+  /** Docker network for builds; "none" disables network access */
+  buildNetwork: string;
+}
+
+export interface ResolvedSiteFile {
+  filePath: string;
+  status: number;
+}
+
+const SITE_ID_PATTERN = /^[a-z0-9-]+$/;
+
+function defaultOptions(): LocalServiceOptions {
+  const siteDomain = process.env.LOCAL_SITES_DOMAIN || '';
+  const port = process.env.PORT || 3000;
+
+  return {
+    rootDir: path.resolve(process.env.LOCAL_SITES_ROOT || path.join('data', 'local-sites')),
+    buildCommand: process.env.LOCAL_BUILD_COMMAND || '',
+    publishDir: process.env.LOCAL_PUBLISH_DIR || '.',
+    buildTimeoutMs: parseInt(process.env.LOCAL_BUILD_TIMEOUT_MS || '600000', 10),
+    maxArtifacts: parseInt(process.env.LOCAL_MAX_ARTIFACTS || '5', 10),
+    siteUrlTemplate:
+      process.env.LOCAL_SITES_URL ||
+      (siteDomain ? `http://{site}.${siteDomain}/` : `http://localhost:${port}/sites/{site}/`),
+    siteDomain,
+    buildImage: process.env.LOCAL_BUILD_IMAGE || 'node:{version}',
+    defaultNodeVersion: process.env.LOCAL_BUILD_NODE_VERSION || '20',
+    buildUser:
+      process.env.LOCAL_BUILD_USER ||
+      (process.getuid && process.getgid ? `${process.getuid()}:${process.getgid()}` : ''),
+    buildMemory: process.env.LOCAL_BUILD_MEMORY || '1g',
+    buildCpus: process.env.LOCAL_BUILD_CPUS || '1',
+    buildPidsLimit: parseInt(process.env.LOCAL_BUILD_PIDS_LIMIT || '256', 10),
+    buildNetwork: process.env.LOCAL_BUILD_NETWORK || 'bridge',
+  };
+}
+
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 40) || 'site'
+  );
+}
+
+function newBuildId(): string {
+  return `${Date.now().toString(36)}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+function classifyLine(message: string, stream: 'stdout' | 'stderr'): Log['level'] {
+  if (/\berror\b/i.test(message)) return 'error';
+  if (stream === 'stderr' || /\bwarn(ing)?\b/i.test(message)) return 'warn';
+  return 'info';
+}
+
+function coerceStatus(state: BuildState | undefined): 'deploying' | 'deployed' | 'failed' {
+  if (state === 'success') return 'deployed';
+  if (state === 'failed') return 'failed';
+  return 'deploying';
+}
+
+function isInside(base: string, target: string): boolean {
+  return target === base || target.startsWith(base + path.sep);
+}
+
+/**
+ * Real path of a target that may not exist yet: its deepest existing ancestor
+ * is resolved through symlinks and the remaining segments are appended
+ */
+async function realpathAllowMissing(target: string): Promise<string> {
+  let existing = target;
+  const missing: string[] = [];
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(existing), ...missing);
+    } catch (error) {
+      const parent = path.dirname(existing);
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === existing) {
+        throw error;
+      }
+      missing.unshift(path.basename(existing));
+      existing = parent;
+    }
+  }
+}
+
+/**
+ * Resolve a repository-relative directory, refusing paths that escape the
+ * checkout, including through symlinks committed to the repository
+ */
+export async function resolveInside(base: string, relative: string): Promise<string> {
+  const realBase = await fs.realpath(base);
+  const resolved = await realpathAllowMissing(path.resolve(realBase, relative || '.'));
+  if (!isInside(realBase, resolved)) {
+    throw new Error(`Directory "${relative}" must be inside the repository`);
+  }
+  return resolved;
+}
+
+/**
+ * Copy filter for published artifacts: symlinks are dropped, since the site
+ * server would follow them to files outside the artifact
+ */
+async function isPublishable(source: string): Promise<boolean> {
+  if (path.basename(source) === '.git') {
+    return false;
+  }
+  const stat = await fs.lstat(source);
+  return !stat.isSymbolicLink();
+}
+
+/**
+ * Environment for git and the docker client. Server secrets are not passed through.
+ */
+function sandboxEnv(workDir: string, extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+  return {
+    PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+    HOME: workDir,
+    LANG: process.env.LANG || 'C.UTF-8',
+    CI: 'true',
+    GIT_TERMINAL_PROMPT: '0',
+    ...(process.env.DOCKER_HOST && { DOCKER_HOST: process.env.DOCKER_HOST }),
+    ...extra,
+  };
+}
+
+/** "v20", "20.x" and "20.11.1" become image tags "20" and "20.11.1" */
+function nodeImageTag(version: string): string {
+  return version.replace(/^v/, '').replace(/\.x$/, '');
+}
+
+function containerName(buildId: string): string {
+  return `luxehost-build-${buildId}`;
+}
+
+/**
+ * Force-remove a build container. Killing the docker client does not stop
+ * the container, so timeouts and site deletion call this as well.
+ */
+function removeContainer(name: string): Promise<void> {
+  return new Promise((resolve) => {
+    const child = spawn('docker', ['rm', '-f', name], { stdio: 'ignore', env: sandboxEnv(process.cwd()) });
+    child.on('error', () => resolve());
+    child.on('close', () => resolve());
+  });
+}
+
+export default class LocalService implements DeploymentProvider {
+  readonly id = 'local';
+  readonly capabilities: ProviderCapabilities = {
+    rollback: true,
+    logs: true,
+    buildConfig: true,
+    envVars: false,
+    domains: false,
+    previews: false,
+  };
+  readonly requiresGitHubToken = true;
+
+  private options: LocalServiceOptions;
+  private manifestLocks = new Map<string, Promise<unknown>>();
+  private buildQueues = new Map<string, Promise<void>>();
+  private activeBuilds = new Set<string>();
+  private children = new Map<string, Set<ReturnType<typeof spawn>>>();
+  private containers = new Map<string, Set<string>>();
+
+  constructor(options: Partial<LocalServiceOptions> = {}) {
+    this.options = { ...defaultOptions(), ...options };
+  }
+
+  get siteDomain(): string {
+    return this.options.siteDomain;
+  }
+
+  private siteDir(siteId: string): string {
+    if (!SITE_ID_PATTERN.test(siteId)) {
+      throw new LocalBuildError(400, 'LOCAL_INVALID_SITE', 'Invalid site id');
+    }
+    return path.join(this.options.rootDir, siteId);
+  }
+
+  private buildDir(siteId: string, buildId: string): string {
+    return path.join(this.siteDir(siteId), 'builds', buildId);
+  }
+
+  private siteUrl(siteId: string): string {
+    return this.options.siteUrlTemplate.replace('{site}', siteId);
+  }
+
+  private async readSite(siteId: string): Promise<LocalSite> {
+    try {
+      const raw = await fs.readFile(path.join(this.siteDir(siteId), 'site.json'), 'utf8');
+      return JSON.parse(raw) as LocalSite;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new LocalBuildError(404, 'LOCAL_SITE_NOT_FOUND', `Local site ${siteId} not found`);
+      }
+      throw error;
+    }
+  }
+
+  private async writeSite(site: LocalSite): Promise<void> {
+    const file = path.join(this.siteDir(site.id), 'site.json');
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(site, null, 2));
+    await fs.rename(tmp, file);
+  }
+
+  /**
+   * Serialize read-modify-write cycles on a site's manifest
+   */
+  private updateSite(siteId: string, mutate: (site: LocalSite) => void): Promise<LocalSite> {
+    const previous = this.manifestLocks.get(siteId) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const site = await this.readSite(siteId);
+        mutate(site);
+        await this.writeSite(site);
+        return site;
+      });
+    this.manifestLocks.set(siteId, next);
+    return next;
+  }
+
+  private async appendLog(
+    siteId: string,
+    buildId: string,
+    message: string,
+    level: Log['level']
+  ): Promise<void> {
+    const entry = { timestamp: new Date().toISOString(), message, level };
+    await fs.appendFile(
+      path.join(this.buildDir(siteId, buildId), 'build.log'),
+      JSON.stringify(entry) + '\n'
+    );
+  }
+
+  /**
+   * Run a command without a shell, streaming output lines to the build log.
+   * The child runs in its own process group so a timeout kills the whole tree.
+   */
+  private runProcess(
+    siteId: string,
+    buildId: string,
+    command: string,
+    args: string[],
+    cwd: string,
+    env: NodeJS.ProcessEnv,
+    onTimeout?: () => Promise<void>
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, {
+        cwd,
+        env,
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      const siteChildren = this.children.get(siteId) || new Set();
+      siteChildren.add(child);
+      this.children.set(siteId, siteChildren);
+
+      let writes = Promise.resolve();
+      const pipeLines = (stream: 'stdout' | 'stderr') => {
+        let buffered = '';
+        child[stream]?.on('data', (chunk: Buffer) => {
+          buffered += chunk.toString('utf8');
+          const lines = buffered.split(/\r?\n/);
+          buffered = lines.pop() || '';
+          for (const line of lines) {
+            if (line.trim().length === 0) continue;
+            writes = writes.then(() =>
+              this.appendLog(siteId, buildId, line, classifyLine(line, stream))
+            );
+          }
+        });
+        child[stream]?.on('end', () => {
+          if (buffered.trim().length > 0) {
+            const line = buffered;
+            writes = writes.then(() =>
+              this.appendLog(siteId, buildId, line, classifyLine(line, stream))
+            );
+          }
+        });
+      };
+      pipeLines('stdout');
+      pipeLines('stderr');
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          if (child.pid) process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          // already exited
+        }
+        onTimeout?.().catch(() => undefined);
+      }, this.options.buildTimeoutMs);
+
+      const finish = (error?: Error) => {
+        clearTimeout(timer);
+        siteChildren.delete(child);
+        writes.then(
+          () => (error ? reject(error) : resolve()),
+          () => (error ? reject(error) : resolve())
+        );
+      };
+
+      child.on('error', (error) => finish(error));
+      child.on('close', (code, signal) => {
+        if (timedOut) {
+          finish(new Error(`Build timed out after ${this.options.buildTimeoutMs}ms`));
+        } else if (code !== 0) {
+          finish(new Error(`${command} exited with ${signal ? `signal ${signal}` : `code ${code}`}`));
+        } else {
+          finish();
+        }
+      });
+    });
+  }
+
+  /**
+   * Run the user's build command in a throwaway container. Only the checkout
+   * is mounted; the container gets no server environment, no capabilities,
+   * and capped memory, CPU and process count.
+   */
+  private async runContainer(
+    siteId: string,
+    buildId: string,
+    buildCommand: string,
+    workDir: string,
+    projectDir: string,
+    nodeVersion: string
+  ): Promise<void> {
+    const name = containerName(buildId);
+    const image = this.options.buildImage.replace('{version}', nodeImageTag(nodeVersion));
+    const workspace = path.posix.join('/workspace', ...path.relative(workDir, projectDir).split(path.sep));
+
+    const args = [
+      'run',
+      '--rm',
+      '--name', name,
+      '--network', this.options.buildNetwork,
+      '--memory', this.options.buildMemory,
+      '--memory-swap', this.options.buildMemory,
+      '--cpus', this.options.buildCpus,
+      '--pids-limit', String(this.options.buildPidsLimit),
+      '--cap-drop', 'ALL',
+      '--security-opt', 'no-new-privileges',
+      ...(this.options.buildUser ? ['--user', this.options.buildUser] : []),
+      '--volume', `${workDir}:/workspace`,
+      '--workdir', workspace,
+      '--env', 'HOME=/workspace',
+      '--env', 'CI=true',
+      image,
+      'sh', '-c', buildCommand,
+    ];
+
+    const siteContainers = this.containers.get(siteId) || new Set();
+    siteContainers.add(name);
+    this.containers.set(siteId, siteContainers);
+
+    try {
+      await this.appendLog(siteId, buildId, `Running build command in ${image}: ${buildCommand}`, 'info');
+      await this.runProcess(siteId, buildId, 'docker', args, workDir, sandboxEnv(workDir), () =>
+        removeContainer(name)
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error('Docker is required to run build commands for local builds');
+      }
+      throw error;
+    } finally {
+      siteContainers.delete(name);
+    }
+  }
+
+  private async runBuild(siteId: string, buildId: string, context: ProviderContext): Promise<void> {
+    const site = await this.updateSite(siteId, (s) => {
+      const build = s.builds.find((b) => b.id === buildId);
+      if (build) {
+        build.state = 'building';
+        build.startedAt = new Date().toISOString();
+      }
+    });
+    const build = site.builds.find((b) => b.id === buildId);
+    if (!build) return;
+
+    let workDir = path.join(this.siteDir(siteId), 'work', buildId);
+    const outputDir = path.join(this.buildDir(siteId, buildId), 'output');
+
+    try {
+      await fs.mkdir(workDir, { recursive: true });
+      // The container mounts the checkout by its real path
+      workDir = await fs.realpath(workDir);
+
+      const gitEnv: Record<string, string> = {};
+      if (context.gitHubToken) {
+        const basic = Buffer.from(`x-access-token:${context.gitHubToken}`).toString('base64');
+        gitEnv.GIT_CONFIG_COUNT = '1';
+        gitEnv.GIT_CONFIG_KEY_0 = 'http.extraheader';
+        gitEnv.GIT_CONFIG_VALUE_0 = `AUTHORIZATION: basic ${basic}`;
+      }
+      const env = sandboxEnv(workDir, gitEnv);
+      const ref = build.commitSha || build.branch;
+
+      await this.appendLog(siteId, buildId, `Fetching ${site.repo}@${ref}`, 'info');
+      await this.runProcess(siteId, buildId, 'git', ['init', '-q'], workDir, env);
+      await this.runProcess(
+        siteId,
+        buildId,
+        'git',
+        ['remote', 'add', 'origin', `https://github.com/${site.repo}.git`],
+        workDir,
+        env
+      );
+      await this.runProcess(siteId, buildId, 'git', ['fetch', '-q', '--depth', '1', 'origin', ref], workDir, env);
+      await this.runProcess(siteId, buildId, 'git', ['checkout', '-q', 'FETCH_HEAD'], workDir, env);
+
+      const config = site.buildConfig;
+      const buildCommand = config?.buildCommand || this.options.buildCommand;
+      const publishDirName = config?.publishDir || this.options.publishDir;
+      const projectDir = await resolveInside(workDir, config?.rootDir || '.');
+
+      if (buildCommand) {
+        await this.runContainer(
+          siteId,
+          buildId,
+          buildCommand,
+          workDir,
+          projectDir,
+          config?.runtimeVersion || this.options.defaultNodeVersion
+        );
+      }
+
+      // publishDir is relative to the root directory
+      const publishDir = await resolveInside(workDir, path.join(config?.rootDir || '.', publishDirName));
+
+      const stat = await fs.stat(publishDir).catch(() => null);
+      if (!stat || !stat.isDirectory()) {
+        throw new Error(`Publish directory "${publishDirName}" was not produced by the build`);
+      }
+
+      await fs.cp(publishDir, outputDir, {
+        recursive: true,
+        dereference: false,
+        filter: isPublishable,
+      });
+
+      await this.appendLog(siteId, buildId, 'Build succeeded, artifact published', 'info');
+      await this.updateSite(siteId, (s) => {
+        const b = s.builds.find((x) => x.id === buildId);
+        if (b) {
+          b.state = 'success';
+          b.finishedAt = new Date().toISOString();
+        }
+        s.current = buildId;
+        s.currentActivatedAt = new Date().toISOString();
+      });
+    } catch (error) {
+      const message = (error as Error).message || 'Build failed';
+      await this.appendLog(siteId, buildId, message, 'error').catch(() => undefined);
+      await this.updateSite(siteId, (s) => {
+        const b = s.builds.find((x) => x.id === buildId);
+        if (b) {
+          b.state = 'failed';
+          b.error = message;
+          b.finishedAt = new Date().toISOString();
+        }
+      }).catch(() => undefined);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+      await this.pruneArtifacts(siteId).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Keep the newest successful artifacts (and always the one being served)
+   */
+  private async pruneArtifacts(siteId: string): Promise<void> {
+    const site = await this.readSite(siteId);
+    const keep = new Set(
+      site.builds
+        .filter((b) => b.state === 'success' && !b.pruned)
+        .slice(-this.options.maxArtifacts)
+        .map((b) => b.id)
+    );
+    if (site.current) keep.add(site.current);
+
+    const stale = site.builds.filter((b) => b.state === 'success' && !b.pruned && !keep.has(b.id));
+    if (stale.length === 0) return;
+
+    for (const build of stale) {
+      await fs.rm(path.join(this.buildDir(siteId, build.id), 'output'), { recursive: true, force: true });
+    }
+
+    await this.updateSite(siteId, (s) => {
+      for (const b of s.builds) {
+        if (stale.some((x) => x.id === b.id)) b.pruned = true;
+      }
+    });
+  }
+
+  /**
+   * Record a build and run it after any build already running for the site
+   */
+  private async startBuild(siteId: string, context: ProviderContext, branch: string): Promise<string> {
+    const buildId = newBuildId();
+    await fs.mkdir(this.buildDir(siteId, buildId), { recursive: true });
+
+    await this.updateSite(siteId, (s) => {
+      s.builds.push({
+        id: buildId,
+        state: 'queued',
+        branch,
+        commitSha: context.commitSha,
+        createdAt: new Date().toISOString(),
+      });
+    });
+
+    this.activeBuilds.add(buildId);
+    const previous = this.buildQueues.get(siteId) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.runBuild(siteId, buildId, context))
+      .catch((error) => {
+        console.error(`Local build ${buildId} crashed:`, error);
+      })
+      .finally(() => {
+        this.activeBuilds.delete(buildId);
+      });
+    this.buildQueues.set(siteId, next);
+
+    return buildId;
+  }
+
+  async createDeployment(
+    projectName: string,
+    gitHubRepo: string,
+    gitHubToken: string,
+    options: CreateDeploymentOptions = {}
+  ): Promise<Deployment> {
+    const [owner, repo] = gitHubRepo.split('/');
+    if (!owner || !repo) {
+      throw new LocalBuildError(400, 'INVALID_GITHUB_REPO', 'Invalid GitHub repository format');
+    }
+
+    const siteId = `${slugify(projectName)}-${crypto.randomBytes(3).toString('hex')}`;
+    const createdAt = new Date();
+
+    await fs.mkdir(this.siteDir(siteId), { recursive: true });
+    await this.writeSite({
+      id: siteId,
+      name: projectName,
+      repo: gitHubRepo,
+      createdAt: createdAt.toISOString(),
+      productionBranch: options.productionBranch,
+      buildConfig: options.buildConfig,
+      builds: [],
+    });
+
+    const buildId = await this.startBuild(siteId, { gitHubToken }, options.productionBranch || 'main');
+
+    return {
+      deploymentId: siteId,
+      status: 'deploying',
+      url: this.siteUrl(siteId),
+      createdAt,
+      providerDeploymentId: buildId,
+    };
+  }
+
+  async getDeploymentStatus(deploymentId: string): Promise<DeploymentStatus> {
+    let site = await this.readSite(deploymentId);
+    let latest = site.builds[site.builds.length - 1];
+
+    // A queued or running build that this process does not know about was interrupted by a restart
+    if (latest && (latest.state === 'queued' || latest.state === 'building') && !this.activeBuilds.has(latest.id)) {
+      site = await this.updateSite(deploymentId, (s) => {
+        const b = s.builds.find((x) => x.id === latest.id);
+        if (b) {
+          b.state = 'failed';
+          b.error = 'Build interrupted';
+          b.finishedAt = new Date().toISOString();
+        }
+      });
+      latest = site.builds[site.builds.length - 1];
+    }
+
+    const rolledBack =
+      site.currentActivatedAt && latest && site.current !== latest.id
+        ? new Date(site.currentActivatedAt) > new Date(latest.createdAt)
+        : false;
+
+    const url = this.siteUrl(deploymentId);
+    const lastDeployed = site.currentActivatedAt
+      ? new Date(site.currentActivatedAt)
+      : new Date(site.createdAt);
+
+    return {
+      status: rolledBack ? 'deployed' : coerceStatus(latest?.state),
+      url,
+      lastDeployed,
+      deploymentUrl: url,
+    };
+  }
+
+  async triggerRedeploy(deploymentId: string, context?: ProviderContext): Promise<string | undefined> {
+    const site = await this.readSite(deploymentId);
+    return this.startBuild(
+      deploymentId,
+      context || {},
+      context?.branch || site.productionBranch || 'main'
+    );
+  }
+
+  async getBuild(deploymentId: string, providerDeploymentId: string): Promise<Deployment> {
+    const site = await this.readSite(deploymentId);
+    const build = site.builds.find((b) => b.id === providerDeploymentId);
+    if (!build) {
+      throw new LocalBuildError(404, 'LOCAL_BUILD_NOT_FOUND', `Local build ${providerDeploymentId} not found`);
+    }
+
+    // Queued or running builds this process does not know about were interrupted by a restart
+    const interrupted =
+      (build.state === 'queued' || build.state === 'building') && !this.activeBuilds.has(build.id);
+
+    return {
+      deploymentId: build.id,
+      status: interrupted ? 'failed' : coerceStatus(build.state),
+      url: this.siteUrl(deploymentId),
+      createdAt: new Date(build.createdAt),
+    };
+  }
+
+  async rollback(deploymentId: string, providerDeploymentId: string): Promise<Deployment> {
+    const site = await this.readSite(deploymentId);
+    const build = site.builds.find((b) => b.id === providerDeploymentId);
+
+    if (!build || build.state !== 'success' || build.pruned) {
+      throw new LocalBuildError(
+        409,
+        'LOCAL_ARTIFACT_UNAVAILABLE',
+        'The artifact for this build is no longer available'
+      );
+    }
+
+    const activatedAt = new Date();
+    await this.updateSite(deploymentId, (s) => {
+      s.current = build.id;
+      s.currentActivatedAt = activatedAt.toISOString();
+    });
+
+    return {
+      deploymentId: build.id,
+      status: 'deployed',
+      url: this.siteUrl(deploymentId),
+      createdAt: activatedAt,
+    };
+  }
+
+  async updateProductionBranch(deploymentId: string, branch: string): Promise<void> {
+    await this.updateSite(deploymentId, (s) => {
+      s.productionBranch = branch;
+    });
+  }
+
+  async updateBuildConfig(deploymentId: string, buildConfig: BuildConfig): Promise<void> {
+    await this.updateSite(deploymentId, (s) => {
+      s.buildConfig = buildConfig;
+    });
+  }
+
+  async deleteDeployment(deploymentId: string): Promise<void> {
+    const dir = this.siteDir(deploymentId);
+
+    for (const child of this.children.get(deploymentId) || []) {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        // already exited
+      }
+    }
+    this.children.delete(deploymentId);
+
+    await Promise.all([...(this.containers.get(deploymentId) || [])].map(removeContainer));
+    this.containers.delete(deploymentId);
+
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  async getDeploymentLogs(deploymentId: string, providerDeploymentId: string): Promise<Log[]> {
+    const site = await this.readSite(deploymentId);
+    const build = site.builds.find((b) => b.id === providerDeploymentId);
+    if (!build) {
+      return [];
+    }
+
+    let raw = '';
+    try {
+      raw = await fs.readFile(path.join(this.buildDir(deploymentId, build.id), 'build.log'), 'utf8');
+    } catch {
+      return [];
+    }
+
+    return raw
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        try {
+          const entry = JSON.parse(line);
+          return {
+            timestamp: new Date(entry.timestamp),
+            message: String(entry.message),
+            level: entry.level === 'error' || entry.level === 'warn' ? entry.level : 'info',
+          } as Log;
+        } catch {
+          return { timestamp: new Date(), message: line, level: 'info' } as Log;
+        }
+      });
+  }
+
+  /**
+   * Map a request path to a file in the site's current artifact.
+   * Returns null when the site has no published artifact.
+   */
+  async resolveSiteFile(siteId: string, requestPath: string): Promise<ResolvedSiteFile | null> {
+    if (!SITE_ID_PATTERN.test(siteId)) {
+      return null;
+    }
+
+    let site: LocalSite;
+    try {
+      site = await this.readSite(siteId);
+    } catch {
+      return null;
+    }
+    if (!site.current) {
+      return null;
+    }
+
+    let root: string;
+    try {
+      root = await fs.realpath(path.join(this.buildDir(siteId, site.current), 'output'));
+    } catch {
+      return null;
+    }
+
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(requestPath);
+    } catch {
+      return null;
+    }
+
+    const candidate = path.resolve(root, '.' + path.posix.normalize('/' + decoded));
+    if (!isInside(root, candidate)) {
+      return null;
+    }
+
+    // Follow symlinks before checking containment; artifacts built before
+    // symlinks were dropped at copy time may still contain them
+    const realInside = async (file: string): Promise<string | null> => {
+      const real = await fs.realpath(file).catch(() => null);
+      return real && isInside(root, real) ? real : null;
+    };
+    const tryFile = async (file: string): Promise<string | null> => {
+      const real = await realInside(file);
+      const stat = real ? await fs.stat(real).catch(() => null) : null;
+      return stat?.isFile() ? real : null;
+    };
+
+    const direct = await realInside(candidate);
+    const stat = direct ? await fs.stat(direct).catch(() => null) : null;
+    if (direct && stat?.isFile()) {
+      return { filePath: direct, status: 200 };
+    }
+
+    const index = stat?.isDirectory() ? await tryFile(path.join(candidate, 'index.html')) : null;
+    if (index) {
+      return { filePath: index, status: 200 };
+    }
+
+    const html = path.extname(candidate) ? null : await tryFile(`${candidate}.html`);
+    if (html) {
+      return { filePath: html, status: 200 };
+    }
+
+    const notFound = await tryFile(path.join(root, '404.html'));
+    if (notFound) {
+      return { filePath: notFound, status: 404 };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Shared LocalService instance from the provider registry
+ */
+export function getLocalService(): LocalService {
+  const provider = getProvider('local');
+  if (!(provider instanceof LocalService)) {
+    throw new Error('Local deployment provider is not registered');
+  }
+  return provider;
+}
+
+registerProvider({
+  id: 'local',
+  displayName: 'Self-hosted',
+  create: () => new LocalService(),
+});
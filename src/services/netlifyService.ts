@@ -1,12 +1,22 @@
-import { Deployment, DeploymentStatus, Log } from '../types';
-
-export class NetlifyError extends Error {
-  constructor(
-    public statusCode: number,
-    public code: string,
-    message: string
-  ) {
-    super(message);
+import {
+  BuildConfig,
+  CreateDeploymentOptions,
+  Deployment,
+  DeploymentProvider,
+  EnvVarSet,
+  PreviewRef,
+  PreviewRequest,
+  DeploymentStatus,
+  DomainStatus,
+  Log,
+  ProviderCapabilities,
+} from '../types';
+import { ProviderError, registerProvider } from './providerRegistry';
+import { parseLogLines } from '../utils/logParser';
+
+export class NetlifyError extends ProviderError {
+  constructor(statusCode: number, code: string, message: string) {
+    super(statusCode, code, message);
     this.name = 'NetlifyError';
   }
 }
@@ -24,7 +34,32 @@ function coerceStatus(value: unknown): 'deploying' | 'deployed' | 'failed' {
   return 'deploying';
 }
 
-export default class NetlifyService {
+// Netlify's load balancer, for apex domains that cannot use a CNAME
+const NETLIFY_APEX_IP = '75.2.60.5';
+
+/**
+ * Hostnames with two labels (example.com) are treated as apex domains.
+ * Multi-part public suffixes such as co.uk are not detected.
+ */
+function isApexDomain(hostname: string): boolean {
+  return hostname.split('.').length === 2;
+}
+
+function siteDomains(site: any): string[] {
+  return [site?.custom_domain, ...(site?.domain_aliases || [])].filter(Boolean);
+}
+
+export default class NetlifyService implements DeploymentProvider {
+  readonly id = 'netlify';
+  readonly capabilities: ProviderCapabilities = {
+    rollback: true,
+    logs: true,
+    buildConfig: true,
+    envVars: true,
+    domains: true,
+    previews: true,
+  };
+
   private apiToken: string;
   private baseUrl = 'https://api.netlify.com/api/v1';
 
@@ -70,8 +105,11 @@ export default class NetlifyService {
   async createDeployment(
     projectName: string,
     gitHubRepo: string,
-    gitHubToken: string
+    gitHubToken: string,
+    options: CreateDeploymentOptions = {}
   ): Promise<Deployment> {
+    const buildConfig = options.buildConfig;
+
     const result = await this.request<any>('/sites', {
       method: 'POST',
       body: JSON.stringify({
@@ -79,9 +117,19 @@ export default class NetlifyService {
         repo: {
           provider: 'github',
           repo: gitHubRepo,
-          branch: 'main',
+          branch: options.productionBranch || 'main',
+          ...(buildConfig
+            ? {
+                cmd: buildConfig.buildCommand,
+                dir: buildConfig.publishDir,
+                base: buildConfig.rootDir,
+              }
+            : {}),
         },
         github_token: gitHubToken,
+        ...(buildConfig?.runtimeVersion
+          ? { build_settings: { env: { NODE_VERSION: buildConfig.runtimeVersion } } }
+          : {}),
       }),
     });
 
@@ -92,11 +140,19 @@ export default class NetlifyService {
       result?.url ||
       (result?.name ? `https://${result.name}.netlify.app` : '');
 
+    // Linking the repository usually starts a build; start one if it has not, so the deployment has an id
+    const deploys = await this.request<any[]>(
+      `/sites/${encodeURIComponent(result?.id)}/deploys?per_page=1`,
+      { method: 'GET' }
+    );
+    const firstDeployId = deploys?.[0]?.id || (await this.triggerRedeploy(result?.id));
+
     return {
       deploymentId: result?.id,
       status: 'deploying',
       url,
       createdAt,
+      providerDeploymentId: firstDeployId,
     };
   }
 
@@ -107,14 +163,23 @@ export default class NetlifyService {
 
     const url = site?.ssl_url || site?.url || (site?.name ? `https://${site.name}.netlify.app` : '');
 
+    // site.state is 'current' for any live site, so the newest production
+    // deploy decides whether a build is still running
+    const deploys = await this.request<any[]>(
+      `/sites/${encodeURIComponent(siteId)}/deploys?production=true&per_page=1`,
+      { method: 'GET' }
+    );
+    const latest = deploys?.[0];
     const publishedDeploy = site?.published_deploy;
-    const status = coerceStatus(site?.state || publishedDeploy?.state);
+    const status = coerceStatus(latest?.state || publishedDeploy?.state);
 
-    const lastDeployed = publishedDeploy?.published_at
-      ? new Date(publishedDeploy.published_at)
-      : site?.updated_at
-        ? new Date(site.updated_at)
-        : new Date(0);
+    const lastDeployed = latest?.created_at
+      ? new Date(latest.created_at)
+      : publishedDeploy?.published_at
+        ? new Date(publishedDeploy.published_at)
+        : site?.updated_at
+          ? new Date(site.updated_at)
+          : new Date(0);
 
     const deploymentUrl = publishedDeploy?.deploy_ssl_url || publishedDeploy?.url || url;
 
@@ -126,53 +191,316 @@ export default class NetlifyService {
     };
   }
 
-  async triggerRedeploy(siteId: string): Promise<void> {
-    await this.request<any>(`/sites/${encodeURIComponent(siteId)}/builds`, {
+  /**
+   * Netlify builds deploy previews for pull requests through its own GitHub
+   * integration. This looks up the preview for the commit; its URL is
+   * predictable even before the build has been picked up, and findPreview
+   * fills in the id once it has.
+   */
+  async createPreview(siteId: string, preview: PreviewRequest): Promise<Deployment> {
+    const site = await this.request<any>(`/sites/${encodeURIComponent(siteId)}`, {
+      method: 'GET',
+    });
+    const deploy = await this.findPreviewDeploy(siteId, preview);
+
+    return {
+      deploymentId: deploy?.id || '',
+      status: coerceStatus(deploy?.state),
+      url:
+        deploy?.deploy_ssl_url ||
+        `https://deploy-preview-${preview.prNumber}--${site?.name}.netlify.app`,
+      createdAt: deploy?.created_at ? new Date(deploy.created_at) : new Date(),
+    };
+  }
+
+  async findPreview(siteId: string, preview: PreviewRequest): Promise<Deployment | null> {
+    const deploy = await this.findPreviewDeploy(siteId, preview);
+    if (!deploy?.id) {
+      return null;
+    }
+
+    return {
+      deploymentId: deploy.id,
+      status: coerceStatus(deploy.state),
+      url: deploy.deploy_ssl_url || '',
+      createdAt: deploy.created_at ? new Date(deploy.created_at) : new Date(),
+    };
+  }
+
+  private async findPreviewDeploy(siteId: string, preview: PreviewRequest): Promise<any> {
+    const deploys = await this.request<any[]>(
+      `/sites/${encodeURIComponent(siteId)}/deploys?per_page=50`,
+      { method: 'GET' }
+    );
+
+    return (deploys || []).find(
+      (d) => d?.review_id === preview.prNumber && d?.commit_ref === preview.commitSha
+    );
+  }
+
+  async deletePreview(siteId: string, preview: PreviewRef): Promise<void> {
+    const deploys = await this.request<any[]>(
+      `/sites/${encodeURIComponent(siteId)}/deploys?per_page=100`,
+      { method: 'GET' }
+    );
+
+    for (const deploy of deploys || []) {
+      if (deploy?.review_id !== preview.prNumber || !deploy?.id) {
+        continue;
+      }
+      try {
+        await this.request<any>(`/deploys/${encodeURIComponent(deploy.id)}`, { method: 'DELETE' });
+      } catch (error) {
+        if (!(error instanceof NetlifyError) || error.statusCode !== 404) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async triggerRedeploy(siteId: string): Promise<string | undefined> {
+    const build = await this.request<any>(`/sites/${encodeURIComponent(siteId)}/builds`, {
       method: 'POST',
       body: JSON.stringify({}),
     });
+
+    return build?.deploy_id;
   }
 
-  async deleteDeployment(siteId: string): Promise<void> {
+  async getBuild(siteId: string, providerDeploymentId: string): Promise<Deployment> {
+    void siteId;
+
+    const deploy = await this.request<any>(`/deploys/${encodeURIComponent(providerDeploymentId)}`, {
+      method: 'GET',
+    });
+
+    return {
+      deploymentId: deploy?.id || providerDeploymentId,
+      status: coerceStatus(deploy?.state),
+      url: deploy?.deploy_ssl_url || deploy?.deploy_url || '',
+      createdAt: deploy?.created_at ? new Date(deploy.created_at) : new Date(),
+    };
+  }
+
+  async rollback(siteId: string, providerDeploymentId: string): Promise<Deployment> {
+    const deploy = await this.request<any>(
+      `/sites/${encodeURIComponent(siteId)}/deploys/${encodeURIComponent(providerDeploymentId)}/restore`,
+      { method: 'POST' }
+    );
+
+    return {
+      deploymentId: deploy?.id || providerDeploymentId,
+      status: coerceStatus(deploy?.state),
+      url: deploy?.deploy_ssl_url || deploy?.ssl_url || deploy?.url || '',
+      createdAt: deploy?.created_at ? new Date(deploy.created_at) : new Date(),
+    };
+  }
+
+  async updateBuildConfig(siteId: string, buildConfig: BuildConfig): Promise<void> {
+    const site = await this.request<any>(`/sites/${encodeURIComponent(siteId)}`, {
+      method: 'GET',
+    });
+
+    const env = { ...(site?.build_settings?.env || {}) };
+    if (buildConfig.runtimeVersion) {
+      env.NODE_VERSION = buildConfig.runtimeVersion;
+    } else {
+      delete env.NODE_VERSION;
+    }
+
     await this.request<any>(`/sites/${encodeURIComponent(siteId)}`, {
-      method: 'DELETE',
+      method: 'PATCH',
+      body: JSON.stringify({
+        build_settings: {
+          cmd: buildConfig.buildCommand,
+          dir: buildConfig.publishDir,
+          base: buildConfig.rootDir,
+          env,
+        },
+      }),
     });
   }
 
-  async getDeploymentLogs(siteId: string): Promise<Log[]> {
+  /**
+   * Sync site-scoped variables through the account env API. Production maps to
+   * the 'production' deploy context and preview to 'deploy-preview'.
+   */
+  async updateEnvVars(siteId: string, envVars: EnvVarSet): Promise<void> {
     const site = await this.request<any>(`/sites/${encodeURIComponent(siteId)}`, {
       method: 'GET',
     });
+    const accountId = site?.account_slug || site?.account_id;
+    if (!accountId) {
+      throw new NetlifyError(500, 'NETLIFY_API_ERROR', 'Netlify site has no account');
+    }
 
-    const deployId = site?.published_deploy?.id;
-    if (!deployId) {
-      return [];
+    const base = `/accounts/${encodeURIComponent(accountId)}/env`;
+    const query = `?site_id=${encodeURIComponent(siteId)}`;
+
+    const existing = await this.request<any[]>(`${base}${query}`, { method: 'GET' });
+    const existingKeys = new Set((existing || []).map((v) => v?.key).filter(Boolean));
+
+    const keys = new Set([...Object.keys(envVars.production), ...Object.keys(envVars.preview)]);
+
+    for (const key of existingKeys) {
+      if (key !== 'NODE_VERSION' && !keys.has(key)) {
+        await this.request<any>(`${base}/${encodeURIComponent(key)}${query}`, {
+          method: 'DELETE',
+        });
+      }
+    }
+
+    for (const key of keys) {
+      const values: { value: string; context: string }[] = [];
+      if (key in envVars.production) {
+        values.push({ value: envVars.production[key], context: 'production' });
+      }
+      if (key in envVars.preview) {
+        values.push({ value: envVars.preview[key], context: 'deploy-preview' });
+      }
+
+      const body = { key, scopes: ['builds'], values };
+      if (existingKeys.has(key)) {
+        await this.request<any>(`${base}/${encodeURIComponent(key)}${query}`, {
+          method: 'PUT',
+          body: JSON.stringify(body),
+        });
+      } else {
+        await this.request<any>(`${base}${query}`, {
+          method: 'POST',
+          body: JSON.stringify([body]),
+        });
+      }
+    }
+  }
+
+  private dnsRecords(site: any, hostname: string): DomainStatus['dnsRecords'] {
+    if (isApexDomain(hostname)) {
+      return [{ type: 'A', name: hostname, value: NETLIFY_APEX_IP }];
+    }
+    return [{ type: 'CNAME', name: hostname, value: `${site?.name}.netlify.app` }];
+  }
+
+  /**
+   * The first domain becomes the site's custom_domain, later ones are aliases
+   */
+  async addDomain(siteId: string, hostname: string): Promise<DomainStatus> {
+    const path = `/sites/${encodeURIComponent(siteId)}`;
+    const site = await this.request<any>(path, { method: 'GET' });
+
+    if (!siteDomains(site).includes(hostname)) {
+      const update = site?.custom_domain
+        ? { domain_aliases: [...(site.domain_aliases || []), hostname] }
+        : { custom_domain: hostname };
+      await this.request<any>(path, { method: 'PATCH', body: JSON.stringify(update) });
     }
 
-    const logText = await this.request<any>(`/deploys/${encodeURIComponent(deployId)}/log`, {
+    return {
+      hostname,
+      verificationStatus: 'pending',
+      sslStatus: 'none',
+      dnsRecords: this.dnsRecords(site, hostname),
+    };
+  }
+
+  /**
+   * Netlify verifies a domain by issuing its certificate, which only succeeds
+   * once DNS points at the site. A domain counts as verified when the site's
+   * certificate covers it.
+   */
+  async getDomain(siteId: string, hostname: string): Promise<DomainStatus> {
+    const path = `/sites/${encodeURIComponent(siteId)}`;
+    const site = await this.request<any>(path, { method: 'GET' });
+
+    if (!siteDomains(site).includes(hostname)) {
+      throw new NetlifyError(404, 'NETLIFY_DOMAIN_NOT_FOUND', `Domain ${hostname} is not attached to the site`);
+    }
+
+    let message: string | undefined;
+    try {
+      await this.request<any>(`${path}/ssl`, { method: 'POST' });
+    } catch (error) {
+      if (!(error instanceof NetlifyError)) {
+        throw error;
+      }
+      message = error.message;
+    }
+
+    let cert: any = null;
+    try {
+      cert = await this.request<any>(`${path}/ssl`, { method: 'GET' });
+    } catch (error) {
+      if (!(error instanceof NetlifyError) || error.statusCode !== 404) {
+        throw error;
+      }
+    }
+
+    const covered = Array.isArray(cert?.domains) && cert.domains.includes(hostname);
+    const issued = covered && cert?.state === 'issued';
+
+    return {
+      hostname,
+      verificationStatus: covered ? 'verified' : 'pending',
+      sslStatus: issued ? 'active' : covered ? 'pending' : 'none',
+      dnsRecords: this.dnsRecords(site, hostname),
+      message: covered ? undefined : message,
+    };
+  }
+
+  async removeDomain(siteId: string, hostname: string): Promise<void> {
+    const path = `/sites/${encodeURIComponent(siteId)}`;
+    const site = await this.request<any>(path, { method: 'GET' });
+
+    const aliases: string[] = (site?.domain_aliases || []).filter((d: string) => d !== hostname);
+    let update: any;
+    if (site?.custom_domain === hostname) {
+      // Promote the first alias so the site keeps a primary domain
+      update = { custom_domain: aliases[0] || null, domain_aliases: aliases.slice(1) };
+    } else if ((site?.domain_aliases || []).includes(hostname)) {
+      update = { domain_aliases: aliases };
+    } else {
+      return;
+    }
+
+    await this.request<any>(path, { method: 'PATCH', body: JSON.stringify(update) });
+  }
+
+  async updateProductionBranch(siteId: string, branch: string): Promise<void> {
+    await this.request<any>(`/sites/${encodeURIComponent(siteId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({
+        build_settings: { repo_branch: branch },
+      }),
+    });
+  }
+
+  async deleteDeployment(siteId: string): Promise<void> {
+    await this.request<any>(`/sites/${encodeURIComponent(siteId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getDeploymentLogs(siteId: string, providerDeploymentId: string): Promise<Log[]> {
+    const deploy = await this.getBuild(siteId, providerDeploymentId);
+
+    const logText = await this.request<any>(`/deploys/${encodeURIComponent(providerDeploymentId)}/log`, {
       method: 'GET',
       headers: {
         Accept: 'text/plain',
       },
     });
 
-    const lines =
-      typeof logText === 'string'
-        ? logText.split('\n').filter((l) => l.trim().length > 0)
-        : [];
-
-    return lines.map((message) => {
-      const level = /\berror\b/i.test(message)
-        ? 'error'
-        : /\bwarn\b/i.test(message)
-          ? 'warn'
-          : 'info';
-
-      return {
-        timestamp: new Date(),
-        message,
-        level,
-      };
-    });
+    if (typeof logText !== 'string') {
+      return [];
+    }
+
+    // Lines carry only the time of day; the deploy's creation date anchors them
+    return parseLogLines(logText.split('\n'), deploy.createdAt);
   }
 }
+
+registerProvider({
+  id: 'netlify',
+  displayName: 'Netlify',
+  create: () => new NetlifyService(),
+});
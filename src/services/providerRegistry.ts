@@ -0,0 +1,74 @@
+import { DeploymentProvider } from '../types';
+
+/**
+ * Base class for errors raised by deployment providers.
+ * Routes map any ProviderError to a 502 DEPLOYMENT_FAILED response.
+ */
+export class ProviderError extends Error {
+  constructor(
+    public statusCode: number,
+    public code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export interface ProviderDefinition {
+  id: string;
+  displayName: string;
+  create(): DeploymentProvider;
+}
+
+const definitions = new Map<string, ProviderDefinition>();
+const instances = new Map<string, DeploymentProvider>();
+
+/**
+ * Register a deployment provider. Called once by each provider module.
+ */
+export function registerProvider(definition: ProviderDefinition): void {
+  if (definitions.has(definition.id)) {
+    throw new Error(`Deployment provider "${definition.id}" is already registered`);
+  }
+  definitions.set(definition.id, definition);
+}
+
+export function isProviderRegistered(id: string): boolean {
+  return definitions.has(id);
+}
+
+/**
+ * Get the shared service instance for a provider id
+ * @throws Error if the provider is not registered
+ */
+export function getProvider(id: string): DeploymentProvider {
+  const existing = instances.get(id);
+  if (existing) {
+    return existing;
+  }
+
+  const definition = definitions.get(id);
+  if (!definition) {
+    throw new Error(`Unknown deployment provider "${id}"`);
+  }
+
+  const instance = definition.create();
+  instances.set(id, instance);
+  return instance;
+}
+
+/**
+ * Registered provider ids, typed for use with z.enum and mongoose enums
+ */
+export function getProviderIds(): [string, ...string[]] {
+  const ids = Array.from(definitions.keys());
+  if (ids.length === 0) {
+    throw new Error('No deployment providers registered');
+  }
+  return ids as [string, ...string[]];
+}
+
+export function listProviders(): ProviderDefinition[] {
+  return Array.from(definitions.values());
+}
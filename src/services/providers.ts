@@ -0,0 +1,11 @@
+/**
+ * Deployment provider modules register themselves on import.
+ * Add new providers here; schemas, models and routes pick them up from the registry.
+ */
+import './cloudflareService';
+import './netlifyService';
+import './vercelService';
+import './githubPagesService';
+import './localService';
+
+export * from './providerRegistry';
@@ -0,0 +1,81 @@
+import Project from '../models/Project';
+import { enqueueStatusRefresh } from './deploymentJobs';
+
+const POLL_INTERVAL_MS = 5000;
+
+/** Projects handed to the job runner per pass */
+const BATCH_SIZE = 50;
+
+/**
+ * A due project is pushed back by this much when its refresh is enqueued.
+ * The refresh job reschedules it; if the job fails for good, the project
+ * becomes due again after this delay.
+ */
+const REFRESH_LEASE_MS = 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let currentTick: Promise<void> | null = null;
+
+/**
+ * One pass: enqueue a status refresh for every project that is due for a
+ * check. A project is scheduled while it is deploying or any of its builds
+ * is unfinished; a deploying project that was never scheduled is due now.
+ */
+export async function pollDeploymentStatuses(): Promise<void> {
+  const now = new Date();
+  const due = await Project.find({
+    deploymentId: { $ne: '' },
+    $or: [
+      { statusCheckAfter: { $lte: now } },
+      { status: 'deploying', statusCheckAfter: { $exists: false } },
+    ],
+  })
+    .select('_id statusCheckAfter')
+    .sort({ statusCheckAfter: 1 })
+    .limit(BATCH_SIZE);
+
+  for (const project of due) {
+    try {
+      // Claim the check so other processes skip this project on their pass
+      const claimed = await Project.updateOne(
+        { _id: project._id, statusCheckAfter: project.statusCheckAfter ?? null },
+        { $set: { statusCheckAfter: new Date(now.getTime() + REFRESH_LEASE_MS) } }
+      );
+      if (claimed.modifiedCount === 0) {
+        continue;
+      }
+
+      await enqueueStatusRefresh(project._id.toString());
+    } catch (error) {
+      console.error('Failed to schedule status refresh:', error);
+    }
+  }
+}
+
+function tick(): void {
+  if (currentTick) {
+    return;
+  }
+  currentTick = pollDeploymentStatuses()
+    .catch((error) => console.error('Status poller error:', error))
+    .finally(() => {
+      currentTick = null;
+    });
+}
+
+export function startStatusPoller(): void {
+  if (timer) {
+    return;
+  }
+  timer = setInterval(tick, POLL_INTERVAL_MS);
+}
+
+export async function stopStatusPoller(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  if (currentTick) {
+    await currentTick;
+  }
+}
@@ -0,0 +1,143 @@
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { AuthTokenError, createSession, rotateRefreshToken } from './tokenService';
+
+// In-memory stand-ins for the Session and User collections, covering the
+// queries tokenService makes
+const mockSessions = new Map<string, any>();
+
+jest.mock('../models/Session', () => {
+  const { Types: ObjectIds } = jest.requireActual('mongoose');
+  const matches = (doc: any, filter: any): boolean =>
+    Object.entries(filter).every(([field, condition]: [string, any]) => {
+      if (condition && typeof condition === 'object' && '$exists' in condition) {
+        return (doc[field] !== undefined) === condition.$exists;
+      }
+      return String(doc[field]) === String(condition);
+    });
+
+  return {
+    __esModule: true,
+    default: {
+      create: jest.fn(async (fields: any) => {
+        const doc = { _id: new ObjectIds.ObjectId(), generation: 0, ...fields };
+        mockSessions.set(doc._id.toString(), doc);
+        return { ...doc };
+      }),
+      findById: jest.fn((id: string) => {
+        const doc = mockSessions.get(String(id));
+        const result = Promise.resolve(doc ? { ...doc } : null);
+        return Object.assign(result, { select: () => result });
+      }),
+      findOneAndUpdate: jest.fn(async (filter: any, update: any) => {
+        const doc = mockSessions.get(String(filter._id));
+        if (!doc || !matches(doc, filter)) {
+          return null;
+        }
+        Object.assign(doc, update.$set);
+        doc.generation += update.$inc.generation;
+        return { ...doc };
+      }),
+      updateOne: jest.fn(async (filter: any, update: any) => {
+        const doc = mockSessions.get(String(filter._id));
+        if (!doc || !matches(doc, filter)) {
+          return { modifiedCount: 0 };
+        }
+        Object.assign(doc, update.$set);
+        return { modifiedCount: 1 };
+      }),
+    },
+  };
+});
+
+jest.mock('../models/User', () => ({
+  __esModule: true,
+  default: {
+    findById: jest.fn(async (id: any) => ({
+      _id: id,
+      email: 'ada@example.com',
+      username: 'ada',
+    })),
+  },
+}));
+
+jest.mock('../utils/logger', () => ({ warn: jest.fn() }));
+
+const user = { id: new Types.ObjectId().toString(), email: 'ada@example.com', username: 'ada' };
+const meta = { userAgent: 'jest', ip: '127.0.0.1' };
+
+async function expectAuthError(promise: Promise<unknown>, code: string): Promise<void> {
+  const error = await promise.then(() => null, (e: unknown) => e);
+  expect(error).toBeInstanceOf(AuthTokenError);
+  expect(error).toMatchObject({ code });
+}
+
+beforeAll(() => {
+  process.env.JWT_SECRET = 'test-secret';
+});
+
+beforeEach(() => {
+  mockSessions.clear();
+});
+
+describe('rotateRefreshToken', () => {
+  it('exchanges a refresh token for new tokens on the same session', async () => {
+    const issued = await createSession(user, meta);
+    const rotated = await rotateRefreshToken(issued.refreshToken, meta);
+
+    expect(rotated.sessionId).toBe(issued.sessionId);
+    expect(rotated.refreshToken).not.toBe(issued.refreshToken);
+    expect(rotated.refreshToken.startsWith(`${issued.sessionId}.`)).toBe(true);
+
+    const decoded = jwt.verify(rotated.token, 'test-secret') as { id: string; sid: string };
+    expect(decoded.id).toBe(user.id);
+    expect(decoded.sid).toBe(issued.sessionId);
+    expect(mockSessions.get(issued.sessionId).generation).toBe(1);
+  });
+
+  it('accepts each new refresh token in turn', async () => {
+    const issued = await createSession(user, meta);
+    const first = await rotateRefreshToken(issued.refreshToken, meta);
+    const second = await rotateRefreshToken(first.refreshToken, meta);
+
+    expect(second.sessionId).toBe(issued.sessionId);
+    expect(mockSessions.get(issued.sessionId).generation).toBe(2);
+  });
+
+  it('revokes the session when an exchanged refresh token is presented again', async () => {
+    const issued = await createSession(user, meta);
+    const rotated = await rotateRefreshToken(issued.refreshToken, meta);
+
+    await expectAuthError(rotateRefreshToken(issued.refreshToken, meta), 'REFRESH_TOKEN_REUSED');
+
+    const session = mockSessions.get(issued.sessionId);
+    expect(session.revokedAt).toBeInstanceOf(Date);
+    expect(session.revokedReason).toBe('token_reuse');
+
+    // The legitimate client's newer token stops working too
+    await expectAuthError(rotateRefreshToken(rotated.refreshToken, meta), 'SESSION_REVOKED');
+  });
+
+  it('lets only one of two concurrent refreshes with the same token succeed', async () => {
+    const issued = await createSession(user, meta);
+    const results = await Promise.allSettled([
+      rotateRefreshToken(issued.refreshToken, meta),
+      rotateRefreshToken(issued.refreshToken, meta),
+    ]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(mockSessions.get(issued.sessionId).revokedReason).toBe('token_reuse');
+  });
+
+  it('rejects malformed, unknown and expired refresh tokens', async () => {
+    await expectAuthError(rotateRefreshToken('not-a-token', meta), 'INVALID_REFRESH_TOKEN');
+    await expectAuthError(
+      rotateRefreshToken(`${new Types.ObjectId().toString()}.secret`, meta),
+      'INVALID_REFRESH_TOKEN'
+    );
+
+    const issued = await createSession(user, meta);
+    mockSessions.get(issued.sessionId).expiresAt = new Date(Date.now() - 1000);
+    await expectAuthError(rotateRefreshToken(issued.refreshToken, meta), 'INVALID_REFRESH_TOKEN');
+  });
+});
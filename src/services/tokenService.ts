@@ -0,0 +1,354 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import Session, { ISession, SessionRevokeReason } from '../models/Session';
+import LoginChallenge from '../models/LoginChallenge';
+import User from '../models/User';
+import { ERRORS } from '../constants/errors';
+import { warn } from '../utils/logger';
+
+export interface TokenUser {
+  id: string;
+  email: string;
+  username: string;
+}
+
+export interface SessionMeta {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface IssuedTokens {
+  /** Short-lived access token (JWT) */
+  token: string;
+  /** Single-use token for POST /auth/refresh: "<sessionId>.<secret>" */
+  refreshToken: string;
+  /** Access token lifetime, as configured by JWT_EXPIRY */
+  expiresIn: string;
+  sessionId: string;
+}
+
+export class AuthTokenError extends Error {
+  constructor(
+    public statusCode: number,
+    public code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AuthTokenError';
+  }
+}
+
+export type AuthErrorKey =
+  | 'INVALID_REFRESH_TOKEN'
+  | 'REFRESH_TOKEN_REUSED'
+  | 'SESSION_REVOKED'
+  | 'USER_NOT_FOUND'
+  | 'INVALID_TWO_FACTOR_CODE'
+  | 'INVALID_CHALLENGE_TOKEN'
+  | 'TWO_FACTOR_ALREADY_ENABLED'
+  | 'TWO_FACTOR_NOT_ENABLED'
+  | 'TWO_FACTOR_SETUP_REQUIRED'
+  | 'TWO_FACTOR_LOCKED';
+
+export function authError(key: AuthErrorKey): AuthTokenError {
+  const definition = ERRORS[key];
+  return new AuthTokenError(definition.status, definition.code, definition.message);
+}
+
+// Read on use: dotenv is loaded after modules are imported
+function accessTokenExpiry(): string {
+  return process.env.JWT_EXPIRY || '15m';
+}
+
+function refreshTokenTtlMs(): number {
+  return parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10) * 24 * 60 * 60 * 1000;
+}
+
+/** Activity is written at most this often per session */
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function newSecret(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function signAccessToken(user: TokenUser, sessionId: string): string {
+  return jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      sid: sessionId,
+    },
+    process.env.JWT_SECRET || '',
+    { expiresIn: accessTokenExpiry() } as jwt.SignOptions
+  );
+}
+
+/** Login challenges must be answered with a second factor within this time */
+const CHALLENGE_EXPIRY = '5m';
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const CHALLENGE_AUDIENCE = 'login-challenge';
+
+/** Codes that may be tried against one challenge before the login must restart */
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+/**
+ * Short-lived token proving the password step of a login succeeded. It
+ * carries no session, so authenticateToken rejects it.
+ */
+export async function createLoginChallenge(
+  userId: string
+): Promise<{ challengeToken: string; expiresIn: string }> {
+  const challenge = await LoginChallenge.create({
+    userId,
+    expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+  });
+
+  const challengeToken = jwt.sign({ id: userId }, process.env.JWT_SECRET || '', {
+    audience: CHALLENGE_AUDIENCE,
+    expiresIn: CHALLENGE_EXPIRY,
+    jwtid: challenge._id.toString(),
+  } as jwt.SignOptions);
+  return { challengeToken, expiresIn: CHALLENGE_EXPIRY };
+}
+
+/**
+ * Check a login challenge and use up one of its attempts, before the code is
+ * verified so parallel guesses count too. After MAX_CHALLENGE_ATTEMPTS the
+ * challenge is rejected and the user has to sign in again.
+ */
+export async function verifyLoginChallenge(
+  challengeToken: string
+): Promise<{ userId: string; challengeId: string }> {
+  let decoded: { id?: string; jti?: string };
+  try {
+    decoded = jwt.verify(challengeToken, process.env.JWT_SECRET || '', {
+      audience: CHALLENGE_AUDIENCE,
+    }) as typeof decoded;
+  } catch {
+    throw authError('INVALID_CHALLENGE_TOKEN');
+  }
+
+  if (!decoded.id || !decoded.jti || !Types.ObjectId.isValid(decoded.jti)) {
+    throw authError('INVALID_CHALLENGE_TOKEN');
+  }
+
+  const challenge = await LoginChallenge.findOneAndUpdate(
+    {
+      _id: decoded.jti,
+      userId: decoded.id,
+      attempts: { $lt: MAX_CHALLENGE_ATTEMPTS },
+      expiresAt: { $gt: new Date() },
+    },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  );
+  if (!challenge) {
+    throw authError('INVALID_CHALLENGE_TOKEN');
+  }
+
+  return { userId: decoded.id, challengeId: challenge._id.toString() };
+}
+
+/**
+ * Remove a challenge once its login completed, so the token cannot be used again
+ */
+export async function completeLoginChallenge(challengeId: string): Promise<void> {
+  await LoginChallenge.deleteOne({ _id: challengeId });
+}
+
+/**
+ * Start a session for a user who just signed up or logged in
+ */
+export async function createSession(user: TokenUser, meta: SessionMeta): Promise<IssuedTokens> {
+  const secret = newSecret();
+  const session = await Session.create({
+    userId: user.id,
+    tokenHash: hashSecret(secret),
+    userAgent: meta.userAgent?.substring(0, 500),
+    ip: meta.ip,
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + refreshTokenTtlMs()),
+  });
+
+  const sessionId = session._id.toString();
+  return {
+    token: signAccessToken(user, sessionId),
+    refreshToken: `${sessionId}.${secret}`,
+    expiresIn: accessTokenExpiry(),
+    sessionId,
+  };
+}
+
+export async function revokeSession(
+  sessionId: string,
+  reason: SessionRevokeReason
+): Promise<boolean> {
+  const result = await Session.updateOne(
+    { _id: sessionId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Revoke one of a user's own sessions. Returns false when the session does
+ * not exist, belongs to someone else or is already revoked.
+ */
+export async function revokeUserSession(
+  userId: string,
+  sessionId: string,
+  reason: SessionRevokeReason
+): Promise<boolean> {
+  if (!Types.ObjectId.isValid(sessionId)) {
+    return false;
+  }
+
+  const result = await Session.updateOne(
+    { _id: sessionId, userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount > 0;
+}
+
+export async function revokeAllSessions(
+  userId: string,
+  reason: SessionRevokeReason
+): Promise<number> {
+  const result = await Session.updateMany(
+    { userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount;
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token. The
+ * presented token stops working. Presenting a token that was already
+ * exchanged means it leaked, so the whole session is revoked.
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  meta: SessionMeta
+): Promise<IssuedTokens> {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!sessionId || !secret || !Types.ObjectId.isValid(sessionId)) {
+    throw authError('INVALID_REFRESH_TOKEN');
+  }
+
+  const session = await Session.findById(sessionId).select('+tokenHash');
+  if (!session || session.expiresAt.getTime() <= Date.now()) {
+    throw authError('INVALID_REFRESH_TOKEN');
+  }
+  if (session.revokedAt) {
+    throw authError('SESSION_REVOKED');
+  }
+
+  const presented = Buffer.from(hashSecret(secret));
+  const current = Buffer.from(session.tokenHash);
+  const matches = presented.length === current.length && crypto.timingSafeEqual(presented, current);
+
+  const nextSecret = newSecret();
+  // Conditional on the hash, so two refreshes with the same token cannot both succeed
+  const rotated = matches
+    ? await Session.findOneAndUpdate(
+        { _id: session._id, tokenHash: session.tokenHash, revokedAt: { $exists: false } },
+        {
+          $set: {
+            tokenHash: hashSecret(nextSecret),
+            lastUsedAt: new Date(),
+            expiresAt: new Date(Date.now() + refreshTokenTtlMs()),
+            userAgent: meta.userAgent?.substring(0, 500),
+            ip: meta.ip,
+          },
+          $inc: { generation: 1 },
+        },
+        { new: true }
+      )
+    : null;
+
+  if (!rotated) {
+    await revokeSession(sessionId, 'token_reuse');
+    warn('Refresh token reuse detected; session revoked', {
+      sessionId,
+      userId: session.userId.toString(),
+      ip: meta.ip,
+    });
+    throw authError('REFRESH_TOKEN_REUSED');
+  }
+
+  const user = await User.findById(rotated.userId);
+  if (!user) {
+    throw authError('INVALID_REFRESH_TOKEN');
+  }
+
+  return {
+    token: signAccessToken(
+      { id: user._id.toString(), email: user.email, username: user.username },
+      sessionId
+    ),
+    refreshToken: `${sessionId}.${nextSecret}`,
+    expiresIn: accessTokenExpiry(),
+    sessionId,
+  };
+}
+
+/**
+ * Whether an access token's session may still be used
+ */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  if (!Types.ObjectId.isValid(sessionId)) {
+    return false;
+  }
+
+  const session = await Session.exists({
+    _id: sessionId,
+    userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+  return Boolean(session);
+}
+
+/**
+ * A user's sessions that can still be used, most recently used first
+ */
+export async function listSessions(userId: string): Promise<ISession[]> {
+  return Session.find({
+    userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastUsedAt: -1 });
+}
+
+/**
+ * Record that a session was just used, and from where. Writes are skipped
+ * while the last recorded use is recent, so busy clients cost one update a
+ * minute.
+ */
+export async function touchSession(sessionId: string, meta: SessionMeta): Promise<void> {
+  if (!Types.ObjectId.isValid(sessionId)) {
+    return;
+  }
+
+  const now = Date.now();
+  await Session.updateOne(
+    {
+      _id: sessionId,
+      revokedAt: { $exists: false },
+      lastUsedAt: { $lt: new Date(now - TOUCH_INTERVAL_MS) },
+    },
+    {
+      $set: {
+        lastUsedAt: new Date(now),
+        userAgent: meta.userAgent?.substring(0, 500),
+        ip: meta.ip,
+      },
+    }
+  );
+}
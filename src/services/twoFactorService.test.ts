@@ -0,0 +1,119 @@
+import { Types } from 'mongoose';
+import { verifySecondFactor } from './twoFactorService';
+
+// RFC 6238 test key; at 59 seconds past the epoch its code is 287082
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const VALID_CODE = '287082';
+
+// In-memory stand-in for the user document, covering the queries
+// verifySecondFactor makes
+const mockUser: any = {};
+
+jest.mock('../models/User', () => {
+  const chain = (value: any) => {
+    const result = Promise.resolve(value);
+    return Object.assign(result, { select: () => result });
+  };
+  const notLocked = (now: Date) =>
+    !mockUser.twoFactorLockedUntil || mockUser.twoFactorLockedUntil <= now;
+
+  return {
+    __esModule: true,
+    default: {
+      findById: jest.fn(() => chain({ ...mockUser })),
+      findOneAndUpdate: jest.fn((filter: any, update: any) => {
+        const now = filter.$or[1].twoFactorLockedUntil.$lte;
+        if (!notLocked(now)) {
+          return chain(null);
+        }
+        mockUser.twoFactorFailedAttempts += update.$inc.twoFactorFailedAttempts;
+        return chain({ ...mockUser });
+      }),
+      updateOne: jest.fn(async (filter: any, update: any) => {
+        const step = update.$set?.totpLastStep;
+        if (step !== undefined) {
+          if (mockUser.totpLastStep !== undefined && mockUser.totpLastStep >= step) {
+            return { modifiedCount: 0 };
+          }
+        } else if (update.$pull) {
+          return { modifiedCount: 0 };
+        }
+        Object.assign(mockUser, update.$set);
+        return { modifiedCount: 1 };
+      }),
+    },
+  };
+});
+
+jest.mock('./encryptionService', () => ({
+  decryptToken: (value: string) => value,
+  encryptToken: (value: string) => value,
+}));
+
+jest.mock('../utils/logger', () => ({ info: jest.fn(), warn: jest.fn() }));
+
+async function attempt(code: string): Promise<string> {
+  return verifySecondFactor(mockUser._id.toString(), code).then(
+    () => 'ok',
+    (error) => error.code
+  );
+}
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: 59 * 1000 });
+  for (const key of Object.keys(mockUser)) {
+    delete mockUser[key];
+  }
+  Object.assign(mockUser, {
+    _id: new Types.ObjectId(),
+    twoFactorEnabled: true,
+    totpSecret: SECRET,
+    twoFactorFailedAttempts: 0,
+  });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('verifySecondFactor', () => {
+  it('accepts a valid code once', async () => {
+    expect(await attempt(VALID_CODE)).toBe('ok');
+    expect(await attempt(VALID_CODE)).toBe('INVALID_TWO_FACTOR_CODE');
+  });
+
+  it('locks second-factor logins after repeated failures', async () => {
+    for (let i = 0; i < 10; i++) {
+      expect(await attempt('000000')).toBe('INVALID_TWO_FACTOR_CODE');
+    }
+
+    expect(mockUser.twoFactorLockedUntil).toBeInstanceOf(Date);
+    // Even the right code is refused while locked
+    expect(await attempt(VALID_CODE)).toBe('TWO_FACTOR_LOCKED');
+  });
+
+  it('counts failures across logins until one succeeds', async () => {
+    for (let i = 0; i < 9; i++) {
+      await attempt('000000');
+    }
+    expect(await attempt(VALID_CODE)).toBe('ok');
+    expect(mockUser.twoFactorFailedAttempts).toBe(0);
+    expect(mockUser.twoFactorLockedUntil).toBeUndefined();
+  });
+
+  it('allows logins again once the lock expires', async () => {
+    for (let i = 0; i < 10; i++) {
+      await attempt('000000');
+    }
+
+    jest.setSystemTime(59 * 1000 + 15 * 60 * 1000 + 1000);
+    expect(await attempt('000000')).toBe('INVALID_TWO_FACTOR_CODE');
+    expect(mockUser.twoFactorFailedAttempts).toBe(1);
+  });
+
+  it('refuses attempts over the limit that passed the lock check together', async () => {
+    mockUser.twoFactorFailedAttempts = 10;
+    expect(await attempt(VALID_CODE)).toBe('TWO_FACTOR_LOCKED');
+    expect(mockUser.twoFactorLockedUntil).toBeInstanceOf(Date);
+  });
+});
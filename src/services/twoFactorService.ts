@@ -0,0 +1,268 @@
+import crypto from 'crypto';
+import User, { IUser } from '../models/User';
+import { decryptToken, encryptToken } from './encryptionService';
+import { authError } from './tokenService';
+import { buildTotpUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { info, warn } from '../utils/logger';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Failed second-factor logins allowed before the user is locked out. Counted
+ * per user, so signing in again for a new challenge does not reset them.
+ */
+const MAX_FAILED_LOGIN_ATTEMPTS = 10;
+const LOGIN_LOCK_MS = 15 * 60 * 1000;
+
+export interface TwoFactorSetup {
+  /** Base32 secret, for entering into an authenticator app by hand */
+  secret: string;
+  /** otpauth:// URI to display as a QR code */
+  otpauthUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+// Read on use: dotenv is loaded after modules are imported
+function totpIssuer(): string {
+  return process.env.TOTP_ISSUER || 'LuxeHost';
+}
+
+/** Recovery codes are compared without case, spaces or dashes */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * New recovery codes in display form ("a1b2c-3d4e5") with the hashes to store
+ */
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.substring(0, 5)}-${hex.substring(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+async function findUser(userId: string, fields = ''): Promise<IUser> {
+  const user = await User.findById(userId).select(fields);
+  if (!user) {
+    throw authError('USER_NOT_FOUND');
+  }
+  return user;
+}
+
+/**
+ * Accept either a current authenticator code or an unused recovery code.
+ * Both are consumed with conditional updates, so the same code cannot pass
+ * twice, even in concurrent requests. The user must be loaded with
+ * +totpSecret.
+ */
+async function consumeSecondFactor(user: IUser, code: string): Promise<boolean> {
+  const candidate = code.trim().replace(/\s/g, '');
+
+  if (/^\d{6}$/.test(candidate)) {
+    const secret = user.totpSecret ? decryptToken(user.totpSecret) : '';
+    const step = secret ? verifyTotp(secret, candidate) : null;
+    if (step === null) {
+      return false;
+    }
+
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        twoFactorEnabled: true,
+        $or: [{ totpLastStep: { $exists: false } }, { totpLastStep: { $lt: step } }],
+      },
+      { $set: { totpLastStep: step } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  const hash = hashRecoveryCode(candidate);
+  const result = await User.updateOne(
+    { _id: user._id, twoFactorEnabled: true, recoveryCodes: hash },
+    { $pull: { recoveryCodes: hash } }
+  );
+  if (result.modifiedCount === 0) {
+    return false;
+  }
+
+  info('Recovery code used', { userId: user._id.toString() }, user._id.toString());
+  return true;
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const user = await findUser(userId, '+recoveryCodes');
+  return {
+    enabled: user.twoFactorEnabled,
+    enabledAt: user.twoFactorEnabledAt || null,
+    recoveryCodesRemaining: user.twoFactorEnabled ? user.recoveryCodes.length : 0,
+  };
+}
+
+/**
+ * Generate a new secret for enrollment. It only takes effect once a code
+ * from it is confirmed; starting over replaces it.
+ */
+export async function startTwoFactorSetup(userId: string): Promise<TwoFactorSetup> {
+  const user = await findUser(userId);
+  if (user.twoFactorEnabled) {
+    throw authError('TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const secret = generateTotpSecret();
+  await User.updateOne({ _id: user._id }, { $set: { totpPendingSecret: encryptToken(secret) } });
+
+  return {
+    secret,
+    otpauthUrl: buildTotpUri(secret, user.email, totpIssuer()),
+  };
+}
+
+/**
+ * Enable two-factor authentication once the user proves their authenticator
+ * app produces codes for the pending secret. Returns the recovery codes,
+ * which are shown only this once.
+ */
+export async function confirmTwoFactorSetup(userId: string, code: string): Promise<string[]> {
+  const user = await findUser(userId, '+totpPendingSecret');
+  if (user.twoFactorEnabled) {
+    throw authError('TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const pending = user.totpPendingSecret;
+  const secret = pending ? decryptToken(pending) : '';
+  if (!pending || !secret) {
+    throw authError('TWO_FACTOR_SETUP_REQUIRED');
+  }
+
+  const step = verifyTotp(secret, code.trim());
+  if (step === null) {
+    throw authError('INVALID_TWO_FACTOR_CODE');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  // Conditional on the pending secret, so a concurrent restart of setup wins
+  const result = await User.updateOne(
+    { _id: user._id, twoFactorEnabled: false, totpPendingSecret: pending },
+    {
+      $set: {
+        totpSecret: pending,
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        totpLastStep: step,
+        recoveryCodes: hashes,
+      },
+      $unset: { totpPendingSecret: 1 },
+    }
+  );
+  if (result.modifiedCount === 0) {
+    throw authError('TWO_FACTOR_SETUP_REQUIRED');
+  }
+
+  return codes;
+}
+
+async function lockSecondFactorLogin(user: IUser): Promise<void> {
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        twoFactorFailedAttempts: 0,
+        twoFactorLockedUntil: new Date(Date.now() + LOGIN_LOCK_MS),
+      },
+    }
+  );
+  warn('Two-factor login locked after repeated failures', { userId: user._id.toString() });
+}
+
+/**
+ * Second login step: check the code of a user who passed the password step.
+ * The attempt is counted before the code is checked, so parallel guesses
+ * count too; a success clears the count and reaching the limit locks second-
+ * factor logins for LOGIN_LOCK_MS.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<IUser> {
+  const user = await User.findById(userId).select('+totpSecret');
+  if (!user || !user.twoFactorEnabled) {
+    throw authError('INVALID_CHALLENGE_TOKEN');
+  }
+
+  const now = new Date();
+  const counted = await User.findOneAndUpdate(
+    {
+      _id: user._id,
+      $or: [{ twoFactorLockedUntil: { $exists: false } }, { twoFactorLockedUntil: { $lte: now } }],
+    },
+    { $inc: { twoFactorFailedAttempts: 1 } },
+    { new: true }
+  ).select('+twoFactorFailedAttempts');
+  if (!counted) {
+    throw authError('TWO_FACTOR_LOCKED');
+  }
+  // Parallel attempts can pass the lock check together; those over the limit are refused
+  if (counted.twoFactorFailedAttempts > MAX_FAILED_LOGIN_ATTEMPTS) {
+    await lockSecondFactorLogin(user);
+    throw authError('TWO_FACTOR_LOCKED');
+  }
+
+  if (await consumeSecondFactor(user, code)) {
+    await User.updateOne({ _id: user._id }, { $set: { twoFactorFailedAttempts: 0 } });
+    return user;
+  }
+
+  if (counted.twoFactorFailedAttempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+    await lockSecondFactorLogin(user);
+  }
+  throw authError('INVALID_TWO_FACTOR_CODE');
+}
+
+export async function disableTwoFactor(userId: string, code: string): Promise<void> {
+  const user = await findUser(userId, '+totpSecret');
+  if (!user.twoFactorEnabled) {
+    throw authError('TWO_FACTOR_NOT_ENABLED');
+  }
+  if (!(await consumeSecondFactor(user, code))) {
+    throw authError('INVALID_TWO_FACTOR_CODE');
+  }
+
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: { twoFactorEnabled: false, recoveryCodes: [], twoFactorFailedAttempts: 0 },
+      $unset: {
+        totpSecret: 1,
+        totpPendingSecret: 1,
+        totpLastStep: 1,
+        twoFactorEnabledAt: 1,
+        twoFactorLockedUntil: 1,
+      },
+    }
+  );
+}
+
+/**
+ * Replace all recovery codes; the old ones stop working
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  const user = await findUser(userId, '+totpSecret');
+  if (!user.twoFactorEnabled) {
+    throw authError('TWO_FACTOR_NOT_ENABLED');
+  }
+  if (!(await consumeSecondFactor(user, code))) {
+    throw authError('INVALID_TWO_FACTOR_CODE');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await User.updateOne({ _id: user._id }, { $set: { recoveryCodes: hashes } });
+  return codes;
+}
@@ -0,0 +1,389 @@
+import {
+  BuildConfig,
+  CreateDeploymentOptions,
+  Deployment,
+  DeploymentProvider,
+  DeploymentStatus,
+  Log,
+  PreviewRef,
+  PreviewRequest,
+  ProviderCapabilities,
+  ProviderContext,
+} from '../types';
+import { ProviderError, registerProvider } from './providerRegistry';
+
+export class VercelError extends ProviderError {
+  constructor(statusCode: number, code: string, message: string) {
+    super(statusCode, code, message);
+    this.name = 'VercelError';
+  }
+}
+
+function getErrorMessage(payload: any): string {
+  const msg = payload?.error?.message || payload?.message || payload?.error;
+  return typeof msg === 'string' && msg.length > 0
+    ? msg
+    : 'Vercel API request failed';
+}
+
+function coerceStatus(value: unknown): 'deploying' | 'deployed' | 'failed' {
+  if (typeof value !== 'string') return 'deploying';
+
+  const v = value.toLowerCase();
+  if (v === 'ready') {
+    return 'deployed';
+  }
+  if (v.includes('error') || v.includes('cancel')) {
+    return 'failed';
+  }
+  return 'deploying';
+}
+
+function withScheme(host: string | undefined): string {
+  if (!host) return '';
+  return host.startsWith('http') ? host : `https://${host}`;
+}
+
+/**
+ * Vercel expects null (not '') to fall back to framework defaults
+ */
+function buildConfigPayload(config: BuildConfig): any {
+  return {
+    buildCommand: config.buildCommand || null,
+    outputDirectory: config.publishDir || null,
+    rootDirectory: config.rootDir || null,
+    ...(config.runtimeVersion ? { nodeVersion: toNodeVersion(config.runtimeVersion) } : {}),
+  };
+}
+
+/**
+ * Vercel only accepts major versions in the form '20.x'
+ */
+function toNodeVersion(version: string): string {
+  const major = version.replace(/^v/, '').split('.')[0];
+  return `${major}.x`;
+}
+
+export default class VercelService implements DeploymentProvider {
+  readonly id = 'vercel';
+  readonly capabilities: ProviderCapabilities = {
+    rollback: true,
+    logs: true,
+    buildConfig: true,
+    envVars: false,
+    domains: false,
+    previews: true,
+  };
+
+  private apiToken: string;
+  private teamId: string;
+  private baseUrl: string;
+
+  /**
+   * @param baseUrl - Override the API origin, e.g. to point at a local stand-in of the Vercel REST API
+   */
+  constructor(apiToken?: string, teamId?: string, baseUrl?: string) {
+    this.apiToken = apiToken || process.env.VERCEL_API_TOKEN || '';
+    this.teamId = teamId || process.env.VERCEL_TEAM_ID || '';
+    this.baseUrl = (baseUrl || process.env.VERCEL_API_URL || 'https://api.vercel.com').replace(/\/+$/, '');
+  }
+
+  private ensureConfigured(): void {
+    if (!this.apiToken) {
+      throw new VercelError(500, 'VERCEL_NOT_CONFIGURED', 'Vercel API token not configured');
+    }
+  }
+
+  private withTeam(path: string): string {
+    if (!this.teamId) {
+      return path;
+    }
+    const separator = path.includes('?') ? '&' : '?';
+    return `${path}${separator}teamId=${encodeURIComponent(this.teamId)}`;
+  }
+
+  private async request<T>(path: string, init: any): Promise<T> {
+    this.ensureConfigured();
+
+    const res = await fetch(`${this.baseUrl}${this.withTeam(path)}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiToken}`,
+        ...(init.headers || {}),
+      },
+    });
+
+    const text = await res.text();
+    let payload: any = null;
+    try {
+      payload = text ? JSON.parse(text) : null;
+    } catch {
+      payload = text;
+    }
+
+    if (!res.ok) {
+      throw new VercelError(
+        res.status,
+        'VERCEL_API_ERROR',
+        typeof payload === 'string' && payload ? payload : getErrorMessage(payload)
+      );
+    }
+
+    return payload as T;
+  }
+
+  private async getProject(projectId: string): Promise<any> {
+    return this.request<any>(`/v9/projects/${encodeURIComponent(projectId)}`, {
+      method: 'GET',
+    });
+  }
+
+  /**
+   * Newest production deployment; previews never stand for the project's status
+   */
+  private async getLatestDeployment(projectId: string): Promise<any | null> {
+    const result = await this.request<any>(
+      `/v6/deployments?projectId=${encodeURIComponent(projectId)}&target=production&limit=1`,
+      { method: 'GET' }
+    );
+    return result?.deployments?.[0] || null;
+  }
+
+  /**
+   * The branch is sent with every deployment, so a changed production branch
+   * takes effect on the next redeploy without updating the Vercel project.
+   */
+  private async createProductionDeployment(project: any, branch?: string): Promise<any> {
+    const link = project?.link;
+    if (!link?.repoId) {
+      throw new VercelError(
+        400,
+        'VERCEL_PROJECT_NOT_LINKED',
+        'Vercel project is not linked to a GitHub repository'
+      );
+    }
+
+    return this.request<any>('/v13/deployments', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: project.name,
+        project: project.id,
+        target: 'production',
+        gitSource: {
+          type: 'github',
+          repoId: link.repoId,
+          ref: branch || link.productionBranch || 'main',
+        },
+      }),
+    });
+  }
+
+  async createDeployment(
+    projectName: string,
+    gitHubRepo: string,
+    gitHubToken: string,
+    options: CreateDeploymentOptions = {}
+  ): Promise<Deployment> {
+    void gitHubToken;
+
+    const [owner, repo] = gitHubRepo.split('/');
+    if (!owner || !repo) {
+      throw new VercelError(400, 'INVALID_GITHUB_REPO', 'Invalid GitHub repository format');
+    }
+
+    const project = await this.request<any>('/v10/projects', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: projectName,
+        gitRepository: {
+          type: 'github',
+          repo: gitHubRepo,
+        },
+        ...(options.buildConfig ? buildConfigPayload(options.buildConfig) : {}),
+      }),
+    });
+
+    const deployment = await this.createProductionDeployment(project, options.productionBranch);
+
+    const createdAt = project?.createdAt ? new Date(project.createdAt) : new Date();
+
+    return {
+      deploymentId: project?.id || projectName,
+      status: coerceStatus(deployment?.readyState),
+      url: `https://${project?.name || projectName}.vercel.app`,
+      createdAt,
+      providerDeploymentId: deployment?.id,
+    };
+  }
+
+  async getDeploymentStatus(deploymentId: string): Promise<DeploymentStatus> {
+    const project = await this.getProject(deploymentId);
+    const latest = await this.getLatestDeployment(deploymentId);
+
+    const url = `https://${project?.name || deploymentId}.vercel.app`;
+    const status = coerceStatus(latest?.state || latest?.readyState);
+
+    const lastDeployed = latest?.created
+      ? new Date(latest.created)
+      : project?.updatedAt
+        ? new Date(project.updatedAt)
+        : new Date(0);
+
+    return {
+      status,
+      url,
+      lastDeployed,
+      deploymentUrl: withScheme(latest?.url) || url,
+    };
+  }
+
+  async triggerRedeploy(
+    deploymentId: string,
+    context?: ProviderContext
+  ): Promise<string | undefined> {
+    const project = await this.getProject(deploymentId);
+    const deployment = await this.createProductionDeployment(project, context?.branch);
+    return deployment?.id;
+  }
+
+  async getBuild(deploymentId: string, providerDeploymentId: string): Promise<Deployment> {
+    void deploymentId;
+
+    const deployment = await this.request<any>(
+      `/v13/deployments/${encodeURIComponent(providerDeploymentId)}`,
+      { method: 'GET' }
+    );
+
+    return {
+      deploymentId: deployment?.id || providerDeploymentId,
+      status: coerceStatus(deployment?.readyState || deployment?.state),
+      url: withScheme(deployment?.url),
+      createdAt: deployment?.createdAt ? new Date(deployment.createdAt) : new Date(),
+    };
+  }
+
+  /**
+   * Deployments without a target are previews in Vercel
+   */
+  async createPreview(deploymentId: string, preview: PreviewRequest): Promise<Deployment> {
+    const project = await this.getProject(deploymentId);
+    const link = project?.link;
+    if (!link?.repoId) {
+      throw new VercelError(
+        400,
+        'VERCEL_PROJECT_NOT_LINKED',
+        'Vercel project is not linked to a GitHub repository'
+      );
+    }
+
+    const deployment = await this.request<any>('/v13/deployments', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: project.name,
+        project: project.id,
+        gitSource: {
+          type: 'github',
+          repoId: link.repoId,
+          ref: preview.branch,
+          sha: preview.commitSha,
+        },
+      }),
+    });
+
+    return {
+      deploymentId: deployment?.id,
+      status: coerceStatus(deployment?.readyState),
+      url: withScheme(deployment?.url),
+      createdAt: deployment?.createdAt ? new Date(deployment.createdAt) : new Date(),
+    };
+  }
+
+  async deletePreview(deploymentId: string, preview: PreviewRef): Promise<void> {
+    void deploymentId;
+
+    if (!preview.providerDeploymentId) {
+      return;
+    }
+
+    try {
+      await this.request<any>(`/v13/deployments/${encodeURIComponent(preview.providerDeploymentId)}`, {
+        method: 'DELETE',
+      });
+    } catch (error) {
+      if (error instanceof VercelError && error.statusCode === 404) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async rollback(deploymentId: string, providerDeploymentId: string): Promise<Deployment> {
+    await this.request<any>(
+      `/v9/projects/${encodeURIComponent(deploymentId)}/rollback/${encodeURIComponent(providerDeploymentId)}`,
+      { method: 'POST' }
+    );
+
+    const deployment = await this.request<any>(
+      `/v13/deployments/${encodeURIComponent(providerDeploymentId)}`,
+      { method: 'GET' }
+    );
+
+    return {
+      deploymentId: deployment?.id || providerDeploymentId,
+      status: coerceStatus(deployment?.readyState),
+      url: withScheme(deployment?.url),
+      createdAt: new Date(),
+    };
+  }
+
+  async updateBuildConfig(deploymentId: string, buildConfig: BuildConfig): Promise<void> {
+    await this.request<any>(`/v9/projects/${encodeURIComponent(deploymentId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(buildConfigPayload(buildConfig)),
+    });
+  }
+
+  async deleteDeployment(deploymentId: string): Promise<void> {
+    await this.request<any>(`/v9/projects/${encodeURIComponent(deploymentId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getDeploymentLogs(deploymentId: string, providerDeploymentId: string): Promise<Log[]> {
+    void deploymentId;
+
+    const events = await this.request<any>(
+      `/v3/deployments/${encodeURIComponent(providerDeploymentId)}/events?builds=1`,
+      { method: 'GET' }
+    );
+
+    const list: any[] = Array.isArray(events) ? events : [];
+
+    return list
+      .filter((e) => e?.type === 'stdout' || e?.type === 'stderr' || e?.type === 'command')
+      .map((e) => {
+        const message: string = e?.payload?.text ?? e?.text ?? '';
+        const level: Log['level'] =
+          e?.type === 'stderr' || /\berror\b/i.test(message)
+            ? 'error'
+            : /\bwarn\b/i.test(message)
+              ? 'warn'
+              : 'info';
+
+        const created = e?.payload?.date ?? e?.created;
+        return {
+          timestamp: created ? new Date(created) : new Date(),
+          message,
+          level,
+        };
+      })
+      .filter((l) => l.message.trim().length > 0);
+  }
+}
+
+registerProvider({
+  id: 'vercel',
+  displayName: 'Vercel',
+  create: () => new VercelService(),
+});
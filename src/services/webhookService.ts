@@ -0,0 +1,393 @@
+import { IncomingHttpHeaders } from 'http';
+import Project, { IProject } from '../models/Project';
+import DeployQueueItem from '../models/DeployQueueItem';
+import WebhookClaim from '../models/WebhookClaim';
+import WebhookDelivery, { IWebhookDelivery, WebhookDecision } from '../models/WebhookDelivery';
+import { GitHubPullRequestEvent, GitHubPushEvent } from '../types';
+import { enqueueJob, registerJob } from './jobRunner';
+import { logWebhook } from '../utils/logger';
+import { REDEPLOY_QUEUED } from '../constants/errors';
+
+const PREVIEW_ACTIONS = ['opened', 'synchronize', 'reopened'];
+
+const RECORDED_HEADERS = ['user-agent', 'content-type', 'x-hub-signature-256'];
+
+/** GitHub only redelivers deliveries from the last 3 days */
+const DELIVERY_CLAIM_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+/** Pushes of the same head commit within this window start a single build */
+const COMMIT_DEDUPE_WINDOW_MS =
+  parseInt(process.env.WEBHOOK_DEDUPE_WINDOW_SECONDS || '600', 10) * 1000;
+
+/**
+ * Result of running a webhook through the pipeline: the HTTP response to
+ * send and what to record on the delivery
+ */
+export interface WebhookOutcome {
+  decision: WebhookDecision;
+  responseCode: number;
+  body: Record<string, any>;
+  error?: string;
+  deploymentId?: string;
+  queueItemId?: string;
+  previewId?: string;
+}
+
+interface WebhookJobPayload {
+  webhookDeliveryId: string;
+}
+
+export interface RecordDeliveryOptions {
+  deliveryId?: string;
+  event: string;
+  headers: Record<string, string>;
+  payload: any;
+  signatureValid: boolean;
+  replayOf?: string;
+}
+
+/**
+ * Atomically claim a key for ttlMs. Returns false when an unexpired claim
+ * for the key already exists.
+ */
+async function claim(key: string, ttlMs: number): Promise<boolean> {
+  const now = Date.now();
+  try {
+    // Matches only an expired claim; otherwise the upsert collides on the unique key
+    await WebhookClaim.findOneAndUpdate(
+      { key, expiresAt: { $lte: new Date(now) } },
+      { $set: { expiresAt: new Date(now + ttlMs) } },
+      { upsert: true }
+    );
+    return true;
+  } catch (error) {
+    if ((error as any)?.code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function release(key: string): Promise<void> {
+  await WebhookClaim.deleteOne({ key });
+}
+
+function deliveryClaimKey(projectId: string, deliveryId: string): string {
+  return `delivery:${projectId}:${deliveryId}`;
+}
+
+/**
+ * Claim an X-GitHub-Delivery id for a project. Returns false when the
+ * delivery was already handled, so retries are acknowledged without
+ * running again.
+ */
+export async function claimDelivery(project: IProject, deliveryId: string): Promise<boolean> {
+  return claim(deliveryClaimKey(project._id.toString(), deliveryId), DELIVERY_CLAIM_TTL_MS);
+}
+
+/**
+ * Forget a claimed delivery so a redelivery from GitHub is processed again.
+ * Used when handling failed.
+ */
+export async function releaseDelivery(project: IProject, deliveryId: string): Promise<void> {
+  await release(deliveryClaimKey(project._id.toString(), deliveryId));
+}
+
+function ignored(decision: WebhookDecision, message = 'Event ignored'): WebhookOutcome {
+  return { decision, responseCode: 200, body: { success: true, message } };
+}
+
+/**
+ * Create, update or tear down the preview deployment for a pull request.
+ * PRs from forks are skipped so untrusted code never builds with project secrets.
+ */
+async function handlePullRequest(
+  project: IProject,
+  payload: GitHubPullRequestEvent
+): Promise<WebhookOutcome> {
+  const pr = payload.pull_request;
+
+  if (!project.getDeploymentService().capabilities.previews) {
+    return ignored('previews_unsupported');
+  }
+
+  if (payload.action === 'closed') {
+    const preview = await project.closePreview(pr.number);
+    return {
+      decision: 'preview_closed',
+      responseCode: 200,
+      body: { success: true, message: preview ? 'Preview deleted' : 'No preview to delete' },
+      previewId: preview?._id.toString(),
+    };
+  }
+
+  if (!PREVIEW_ACTIONS.includes(payload.action)) {
+    return ignored('ignored_action');
+  }
+
+  if (pr.head.repo?.full_name !== project.githubRepo) {
+    return ignored('skipped_fork', 'Pull requests from forks are not previewed');
+  }
+
+  const preview = await project.deployPreview({
+    prNumber: pr.number,
+    branch: pr.head.ref,
+    commitSha: pr.head.sha,
+    title: pr.title,
+  });
+
+  return {
+    decision: 'preview_triggered',
+    responseCode: 200,
+    body: {
+      success: true,
+      message: 'Preview deployment triggered',
+      previewId: preview._id.toString(),
+    },
+    previewId: preview._id.toString(),
+  };
+}
+
+/**
+ * Queue a production redeploy when the push is to the project's production branch
+ */
+async function handlePush(
+  project: IProject,
+  payload: GitHubPushEvent,
+  replay: boolean
+): Promise<WebhookOutcome> {
+  const ref = payload.ref; // 'refs/heads/main'
+  if (!ref) {
+    return {
+      decision: 'missing_ref',
+      responseCode: 400,
+      body: { status: 'error', message: 'Missing ref in payload' },
+    };
+  }
+
+  const branch = ref.replace('refs/heads/', '');
+
+  if (branch !== project.defaultBranch) {
+    return ignored('skipped_branch', 'Branch skipped');
+  }
+
+  const headCommit = payload.head_commit || payload.commits?.[payload.commits.length - 1];
+  const commitSha = payload.after || headCommit?.id;
+
+  // Duplicate deliveries of the same push (e.g. from two installed hooks) build once.
+  // A replay is an explicit request to build again, so it skips the claim.
+  const commitKey = commitSha && !replay ? `commit:${project._id.toString()}:${branch}:${commitSha}` : null;
+  if (commitKey && !(await claim(commitKey, COMMIT_DEDUPE_WINDOW_MS))) {
+    const existing = await DeployQueueItem.findOne({
+      projectId: project._id,
+      trigger: 'webhook',
+      commitSha,
+    }).sort({ createdAt: -1 });
+
+    return {
+      decision: 'duplicate_commit',
+      responseCode: 200,
+      body: {
+        success: true,
+        message: 'Build already queued for this commit',
+        ...(existing && { queueItemId: existing._id.toString() }),
+      },
+      queueItemId: existing?._id.toString(),
+      deploymentId: existing?.deploymentId?.toString(),
+    };
+  }
+
+  let item;
+  try {
+    item = await project.queueRedeploy({
+      trigger: 'webhook',
+      branch,
+      commitSha,
+      commitMessage: headCommit?.message,
+    });
+  } catch (error) {
+    // Nothing was queued, so a retry of this push may try again
+    if (commitKey) {
+      await release(commitKey);
+    }
+    throw error;
+  }
+
+  return {
+    decision: 'queued',
+    responseCode: 200,
+    body: {
+      success: true,
+      message: REDEPLOY_QUEUED,
+      queueItemId: item._id.toString(),
+    },
+    queueItemId: item._id.toString(),
+  };
+}
+
+/**
+ * Run a verified GitHub event for a project. Used for live deliveries and
+ * replays, so both take the same decisions, except that a replayed push is
+ * not deduplicated by commit. Never throws; failures come back as an 'error'
+ * outcome.
+ */
+export async function handleGitHubEvent(
+  project: IProject,
+  event: string,
+  payload: any,
+  options: { replay?: boolean } = {}
+): Promise<WebhookOutcome> {
+  try {
+    if (event === 'pull_request') {
+      return await handlePullRequest(project, payload);
+    }
+    if (event === 'push') {
+      return await handlePush(project, payload, options.replay ?? false);
+    }
+    return ignored('ignored_event');
+  } catch (error) {
+    console.error('Webhook error:', error);
+    return {
+      decision: 'error',
+      responseCode: 500,
+      body: { status: 'error', message: 'Internal server error' },
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * GitHub headers worth keeping with a delivery
+ */
+export function pickGitHubHeaders(headers: IncomingHttpHeaders): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (typeof value !== 'string') {
+      continue;
+    }
+    if (name.startsWith('x-github-') || RECORDED_HEADERS.includes(name)) {
+      picked[name] = value;
+    }
+  }
+  return picked;
+}
+
+/**
+ * Log the outcome and persist the delivery. Recording is best-effort: a
+ * failed write is logged and never changes the response GitHub receives.
+ */
+export async function recordDelivery(
+  project: IProject,
+  options: RecordDeliveryOptions,
+  outcome: WebhookOutcome
+): Promise<IWebhookDelivery | null> {
+  logWebhook(
+    project._id.toString(),
+    options.event,
+    outcome.decision,
+    options.headers['x-hub-signature-256'] || ''
+  );
+
+  try {
+    return await WebhookDelivery.create({
+      projectId: project._id,
+      deliveryId: options.deliveryId,
+      event: options.event,
+      headers: options.headers,
+      payload: options.payload,
+      signatureValid: options.signatureValid,
+      decision: outcome.decision,
+      responseCode: outcome.responseCode,
+      error: outcome.error,
+      replayOf: options.replayOf,
+      deploymentId: outcome.deploymentId,
+      queueItemId: outcome.queueItemId,
+      previewId: outcome.previewId,
+    });
+  } catch (error) {
+    console.error('Failed to record webhook delivery:', error);
+    return null;
+  }
+}
+
+/**
+ * Persist a verified delivery as 'pending' and hand it to the webhook.process
+ * job, so GitHub gets its response without waiting on provider calls
+ */
+export async function acceptDelivery(
+  project: IProject,
+  options: RecordDeliveryOptions
+): Promise<IWebhookDelivery> {
+  logWebhook(
+    project._id.toString(),
+    options.event,
+    'pending',
+    options.headers['x-hub-signature-256'] || ''
+  );
+
+  const delivery = await WebhookDelivery.create({
+    projectId: project._id,
+    deliveryId: options.deliveryId,
+    event: options.event,
+    headers: options.headers,
+    payload: options.payload,
+    signatureValid: options.signatureValid,
+    decision: 'pending',
+    responseCode: 202,
+  });
+
+  try {
+    await enqueueJob<WebhookJobPayload>('webhook.process', {
+      webhookDeliveryId: delivery._id.toString(),
+    });
+  } catch (error) {
+    await WebhookDelivery.deleteOne({ _id: delivery._id });
+    throw error;
+  }
+
+  return delivery;
+}
+
+registerJob<WebhookJobPayload>({
+  type: 'webhook.process',
+  async handle({ webhookDeliveryId }) {
+    const delivery = await WebhookDelivery.findById(webhookDeliveryId);
+    // Already handled by an earlier attempt
+    if (!delivery || (delivery.decision !== 'pending' && delivery.decision !== 'error')) {
+      return;
+    }
+
+    const project = await Project.findById(delivery.projectId);
+    if (!project) {
+      return;
+    }
+
+    const outcome = await handleGitHubEvent(project, delivery.event, delivery.payload);
+    logWebhook(
+      project._id.toString(),
+      delivery.event,
+      outcome.decision,
+      delivery.headers['x-hub-signature-256'] || ''
+    );
+
+    delivery.decision = outcome.decision;
+    delivery.responseCode = outcome.responseCode;
+    delivery.error = outcome.error;
+    delivery.set('deploymentId', outcome.deploymentId);
+    delivery.set('queueItemId', outcome.queueItemId);
+    delivery.set('previewId', outcome.previewId);
+    await delivery.save();
+
+    // Retried with backoff; the delivery shows 'error' in the meantime
+    if (outcome.decision === 'error') {
+      throw new Error(outcome.error || 'Webhook processing failed');
+    }
+  },
+  async onDead({ webhookDeliveryId }) {
+    // Let a redelivery from GitHub run again
+    const delivery = await WebhookDelivery.findById(webhookDeliveryId);
+    if (delivery?.deliveryId) {
+      await release(deliveryClaimKey(delivery.projectId.toString(), delivery.deliveryId));
+    }
+  },
+});
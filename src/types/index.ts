@@ -16,6 +16,8 @@ export interface Deployment {
   status: 'deploying' | 'deployed' | 'failed';
   url: string;
   createdAt: Date;
+  /** From createDeployment: the provider's id of the first build, when it has one */
+  providerDeploymentId?: string;
 }
 
 export interface DeploymentStatus {
@@ -31,6 +33,173 @@ export interface Log {
   level: 'info' | 'warn' | 'error';
 }
 
+/**
+ * Optional features a deployment provider may support
+ */
+export interface ProviderCapabilities {
+  rollback: boolean;
+  logs: boolean;
+  buildConfig: boolean;
+  envVars: boolean;
+  domains: boolean;
+  previews: boolean;
+}
+
+/**
+ * Per-project build settings pushed to the provider.
+ * publishDir is relative to rootDir, which is relative to the repository root.
+ */
+export interface BuildConfig {
+  buildCommand: string;
+  publishDir: string;
+  rootDir: string;
+  runtimeVersion: string;
+}
+
+/**
+ * Decrypted environment variables by environment. NODE_VERSION is managed
+ * through BuildConfig.runtimeVersion and never appears here.
+ */
+export interface EnvVarSet {
+  production: Record<string, string>;
+  preview: Record<string, string>;
+}
+
+/**
+ * DNS record the user must create for a custom domain
+ */
+export interface DnsRecord {
+  type: 'A' | 'CNAME' | 'TXT';
+  name: string;
+  value: string;
+}
+
+/**
+ * Custom domain state as reported by the provider
+ */
+export interface DomainStatus {
+  hostname: string;
+  verificationStatus: 'pending' | 'verified' | 'failed';
+  sslStatus: 'none' | 'pending' | 'active' | 'failed';
+  dnsRecords: DnsRecord[];
+  /** Provider message explaining a pending or failed verification */
+  message?: string;
+}
+
+/**
+ * Pull request head to build as a preview deployment
+ */
+export interface PreviewRequest {
+  prNumber: number;
+  branch: string;
+  commitSha: string;
+}
+
+/**
+ * Existing preview to tear down. Some providers only know previews by PR number.
+ */
+export interface PreviewRef {
+  prNumber: number;
+  providerDeploymentId?: string;
+}
+
+export interface CreateDeploymentOptions {
+  buildConfig?: BuildConfig;
+  /** Branch the provider builds for production; providers fall back to 'main' */
+  productionBranch?: string;
+}
+
+/**
+ * Per-call context for providers that act on behalf of the project owner
+ */
+export interface ProviderContext {
+  gitHubToken?: string;
+  /** Branch and commit being deployed, when known (e.g. from a push webhook) */
+  branch?: string;
+  commitSha?: string;
+}
+
+/**
+ * Contract every deployment provider implements
+ */
+export interface DeploymentProvider {
+  readonly id: string;
+  readonly capabilities: ProviderCapabilities;
+  /** When true, callers pass the project owner's GitHub token in the ProviderContext */
+  readonly requiresGitHubToken?: boolean;
+  createDeployment(
+    projectName: string,
+    gitHubRepo: string,
+    gitHubToken: string,
+    options?: CreateDeploymentOptions
+  ): Promise<Deployment>;
+  getDeploymentStatus(deploymentId: string, context?: ProviderContext): Promise<DeploymentStatus>;
+  triggerRedeploy(deploymentId: string, context?: ProviderContext): Promise<string | undefined>;
+  /**
+   * State of one build, by the id returned from createDeployment,
+   * triggerRedeploy or rollback. Its deploymentId is the build's id.
+   */
+  getBuild?(
+    deploymentId: string,
+    providerDeploymentId: string,
+    context?: ProviderContext
+  ): Promise<Deployment>;
+  deleteDeployment(deploymentId: string, context?: ProviderContext): Promise<void>;
+  /** Build log of one build, by the same id getBuild takes */
+  getDeploymentLogs(
+    deploymentId: string,
+    providerDeploymentId: string,
+    context?: ProviderContext
+  ): Promise<Log[]>;
+  rollback?(
+    deploymentId: string,
+    providerDeploymentId: string,
+    context?: ProviderContext
+  ): Promise<Deployment>;
+  updateBuildConfig?(
+    deploymentId: string,
+    buildConfig: BuildConfig,
+    context?: ProviderContext
+  ): Promise<void>;
+  /**
+   * Replace the provider's environment variables with the given set.
+   * Variables not in the set are removed, except NODE_VERSION.
+   */
+  updateEnvVars?(
+    deploymentId: string,
+    envVars: EnvVarSet,
+    context?: ProviderContext
+  ): Promise<void>;
+  createPreview?(
+    deploymentId: string,
+    preview: PreviewRequest,
+    context?: ProviderContext
+  ): Promise<Deployment>;
+  /**
+   * Look up the preview build for a pull request's commit, for providers whose
+   * createPreview can return before the build has an id. Null until it exists.
+   */
+  findPreview?(
+    deploymentId: string,
+    preview: PreviewRequest,
+    context?: ProviderContext
+  ): Promise<Deployment | null>;
+  deletePreview?(deploymentId: string, preview: PreviewRef, context?: ProviderContext): Promise<void>;
+  addDomain?(deploymentId: string, hostname: string, context?: ProviderContext): Promise<DomainStatus>;
+  /** Re-check verification and certificate status for an attached domain */
+  getDomain?(deploymentId: string, hostname: string, context?: ProviderContext): Promise<DomainStatus>;
+  removeDomain?(deploymentId: string, hostname: string, context?: ProviderContext): Promise<void>;
+  /**
+   * Change the branch the provider deploys to production. Providers that take
+   * the branch from ProviderContext on every deployment can omit this.
+   */
+  updateProductionBranch?(
+    deploymentId: string,
+    branch: string,
+    context?: ProviderContext
+  ): Promise<void>;
+}
+
 /**
  * GitHub Repository interface
  */
@@ -60,29 +229,22 @@ export interface Release {
 /**
  * GitHub Push Event interface
  */
-export interface GitHubPushEvent {
-  ref: string;
-  repository: {
-    id: number;
-    name: string;
-    full_name: string;
-    owner: {
-      name: string;
-      email: string;
-    };
-  };
-  pusher: {
-    name: string;
-    email: string;
 export interface GitHubPushEvent {
   ref: string; // 'refs/heads/main'
+  after?: string;
   repository: {
+    id?: number;
     name: string;
     full_name: string; // 'owner/repo'
   };
   pusher: {
     name: string;
+    email?: string;
   };
+  head_commit?: {
+    id: string;
+    message: string;
+  } | null;
   commits: Array<{
     id: string;
     message: string;
@@ -94,6 +256,33 @@ export interface GitHubPushEvent {
   }>;
 }
 
+/**
+ * GitHub Pull Request Event interface (fields used for preview deployments)
+ */
+export interface GitHubPullRequestEvent {
+  action: string; // 'opened' | 'synchronize' | 'reopened' | 'closed' | ...
+  number: number;
+  pull_request: {
+    number: number;
+    title: string;
+    merged?: boolean;
+    head: {
+      ref: string;
+      sha: string;
+      repo: { full_name: string } | null;
+    };
+    base: {
+      ref: string;
+      repo: { full_name: string };
+    };
+  };
+  repository: {
+    id?: number;
+    name: string;
+    full_name: string;
+  };
+}
+
 /**
  * Error Response interface
  */
@@ -102,7 +291,6 @@ export interface ErrorResponse {
   code: string;
   message: string;
   details?: any;
-  }>;
 }
 
 export interface WebhookSignature {
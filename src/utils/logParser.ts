@@ -0,0 +1,72 @@
+import { Log } from '../types';
+
+const ISO_PREFIX =
+  /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?)\]?\s*[:|-]?\s?(.*)$/;
+
+/** Netlify prefixes build log lines with the time of day, e.g. "3:04:05 PM: " */
+const CLOCK_PREFIX = /^(\d{1,2}):(\d{2}):(\d{2})(?:\s*(AM|PM))?:\s?(.*)$/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function inferLogLevel(message: string): Log['level'] {
+  if (/\berror\b/i.test(message)) {
+    return 'error';
+  }
+  if (/\bwarn(ing)?\b/i.test(message)) {
+    return 'warn';
+  }
+  return 'info';
+}
+
+/**
+ * Parse plain-text build log lines, taking each line's timestamp from its
+ * prefix. Times of day are resolved against startedAt (UTC) and roll over at
+ * midnight. Lines without a timestamp inherit the previous line's.
+ */
+export function parseLogLines(lines: string[], startedAt: Date): Log[] {
+  const logs: Log[] = [];
+  let previous = startedAt;
+
+  for (const line of lines) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+
+    let timestamp: Date | null = null;
+    let message = line;
+
+    const iso = ISO_PREFIX.exec(line);
+    const clock = iso ? null : CLOCK_PREFIX.exec(line);
+
+    if (iso) {
+      const parsed = new Date(iso[1]);
+      if (!Number.isNaN(parsed.getTime())) {
+        timestamp = parsed;
+        message = iso[2];
+      }
+    } else if (clock) {
+      let hours = parseInt(clock[1], 10);
+      const meridiem = clock[4]?.toUpperCase();
+      if (meridiem === 'PM' && hours < 12) hours += 12;
+      if (meridiem === 'AM' && hours === 12) hours = 0;
+
+      const parsed = new Date(previous);
+      parsed.setUTCHours(hours, parseInt(clock[2], 10), parseInt(clock[3], 10), 0);
+      // Builds that run past midnight
+      if (parsed.getTime() < previous.getTime() - 60 * 1000) {
+        parsed.setTime(parsed.getTime() + DAY_MS);
+      }
+      timestamp = parsed;
+      message = clock[5];
+    }
+
+    previous = timestamp || previous;
+    logs.push({
+      timestamp: previous,
+      message,
+      level: inferLogLevel(message),
+    });
+  }
+
+  return logs;
+}
@@ -37,19 +37,6 @@ function sanitizeData(data: any): any {
 }
 
 function formatLog(level: string, message: string, data?: any, userId?: string): string {
-/**
- * Log webhook events for debugging and audit trail.
- */
-export function logWebhook(projectId: string, eventType: string, status: string, signature: string): void {
-  console.log(`[${new Date().toISOString()}] WEBHOOK: Project=${projectId}, Event=${eventType}, Status=${status}, Signature=${signature.substring(0, 10)}...`);
-}
-
-/**
- * Log redeployment events.
- */
-export function logRedeploy(projectId: string, branch: string, status: string): void {
-  console.log(`[${new Date().toISOString()}] REDEPLOY: Project=${projectId}, Branch=${branch}, Status=${status}`);
-export function logRequest(method: string, path: string, userId?: string): void {
   const entry = {
     level,
     message,
@@ -108,3 +95,17 @@ export function logDeploymentEvent(
 ): void {
   info('Deployment event', { projectId, event, status });
 }
+
+/**
+ * Log webhook events for debugging and audit trail.
+ */
+export function logWebhook(projectId: string, eventType: string, status: string, signature: string): void {
+  console.log(`[${new Date().toISOString()}] WEBHOOK: Project=${projectId}, Event=${eventType}, Status=${status}, Signature=${signature.substring(0, 10)}...`);
+}
+
+/**
+ * Log redeployment events.
+ */
+export function logRedeploy(projectId: string, branch: string, status: string): void {
+  console.log(`[${new Date().toISOString()}] REDEPLOY: Project=${projectId}, Branch=${branch}, Status=${status}`);
+}
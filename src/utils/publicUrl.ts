@@ -0,0 +1,15 @@
+/**
+ * Public origin of this API as seen by GitHub, e.g. https://api.example.com.
+ * Falls back to localhost, which GitHub cannot reach, for development.
+ */
+export function getPublicApiUrl(): string {
+  const url = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3000}`;
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * URL GitHub delivers repository webhooks to
+ */
+export function getWebhookUrl(): string {
+  return `${getPublicApiUrl()}/webhook/github`;
+}
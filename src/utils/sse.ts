@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+
+/** Comment lines keep proxies from closing idle connections */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/** How long EventSource clients wait before reconnecting */
+const RETRY_MS = 5000;
+
+export interface EventStream {
+  /** Id of the last event the client received before reconnecting */
+  readonly lastEventId?: string;
+  readonly closed: boolean;
+  send(event: string, data: unknown, id?: string | number): void;
+  close(): void;
+}
+
+const openStreams = new Set<EventStream>();
+
+/**
+ * Switch the response to a Server-Sent Events stream. The stream is closed
+ * when the client disconnects, close() is called or the access token it was
+ * opened with expires. On expiry a `token_expired` event is sent first, since
+ * EventSource would otherwise reconnect with the same, now expired, token.
+ */
+export function openEventStream(req: Request, res: Response): EventStream {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // A new EventSource cannot set Last-Event-ID, so clients resuming with a
+  // fresh token pass it as ?lastEventId= instead
+  const lastEventId = req.headers['last-event-id'] ?? req.query.lastEventId;
+  let closed = false;
+  let expiry: NodeJS.Timeout | undefined;
+
+  const cleanup = (): void => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+    openStreams.delete(stream);
+  };
+
+  const stream: EventStream = {
+    lastEventId: typeof lastEventId === 'string' ? lastEventId : undefined,
+    get closed() {
+      return closed;
+    },
+    send(event, data, id) {
+      if (closed) {
+        return;
+      }
+      let frame = `event: ${event}\n`;
+      if (id !== undefined) {
+        frame += `id: ${id}\n`;
+      }
+      frame += `data: ${JSON.stringify(data)}\n\n`;
+      res.write(frame);
+    },
+    close() {
+      if (closed) {
+        return;
+      }
+      cleanup();
+      res.end();
+    },
+  };
+
+  const expiresAt = req.authUser?.expiresAt;
+  if (expiresAt) {
+    expiry = setTimeout(() => {
+      stream.send('token_expired', {
+        code: 'TOKEN_EXPIRED',
+        message: 'Access token has expired',
+      });
+      stream.close();
+    }, Math.max(expiresAt - Date.now(), 0));
+  }
+
+  openStreams.add(stream);
+  req.on('close', cleanup);
+
+  return stream;
+}
+
+/**
+ * Close every open stream. Called on shutdown, since open streams would
+ * otherwise keep the HTTP server from closing.
+ */
+export function closeAllStreams(): void {
+  for (const stream of Array.from(openStreams)) {
+    stream.close();
+  }
+}
@@ -0,0 +1,68 @@
+import { buildTotpUri, generateTotpSecret, verifyTotp } from './totp';
+
+// RFC 6238 appendix B: SHA-1 key "12345678901234567890", base32-encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+// The RFC lists 8-digit codes; these are their last 6 digits
+const RFC_VECTORS: Array<[number, string]> = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+];
+
+describe('verifyTotp', () => {
+  it.each(RFC_VECTORS)('accepts the RFC 6238 code at %i seconds', (seconds, code) => {
+    const at = seconds * 1000;
+    expect(verifyTotp(RFC_SECRET, code, { at, window: 0 })).toBe(Math.floor(seconds / 30));
+  });
+
+  it('accepts a code from the neighbouring step within the window', () => {
+    const at = 59 * 1000 + 30 * 1000;
+    expect(verifyTotp(RFC_SECRET, '287082', { at })).toBe(1);
+  });
+
+  it('rejects a code outside the window', () => {
+    const at = 59 * 1000 + 60 * 1000;
+    expect(verifyTotp(RFC_SECRET, '287082', { at })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '287082', { at: 89 * 1000, window: 0 })).toBeNull();
+  });
+
+  it('rejects a wrong code', () => {
+    expect(verifyTotp(RFC_SECRET, '287083', { at: 59 * 1000 })).toBeNull();
+  });
+
+  it('rejects input that is not six digits', () => {
+    const at = 59 * 1000;
+    expect(verifyTotp(RFC_SECRET, '94287082', { at })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '28708', { at })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '28708a', { at })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, ' 287082', { at })).toBeNull();
+  });
+
+  it('accepts lower-case secrets', () => {
+    expect(verifyTotp(RFC_SECRET.toLowerCase(), '287082', { at: 59 * 1000 })).toBe(1);
+  });
+});
+
+describe('generateTotpSecret', () => {
+  it('returns a 160-bit base32 secret', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe('buildTotpUri', () => {
+  it('builds an otpauth URI with the issuer in the label and parameters', () => {
+    const uri = new URL(buildTotpUri(RFC_SECRET, 'ada@example.com', 'LuxeHost'));
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/LuxeHost:ada@example.com');
+    expect(uri.searchParams.get('secret')).toBe(RFC_SECRET);
+    expect(uri.searchParams.get('issuer')).toBe('LuxeHost');
+    expect(uri.searchParams.get('digits')).toBe('6');
+    expect(uri.searchParams.get('period')).toBe('30');
+  });
+});
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { captureRawBody } from '../middleware/rawBody';
+import { verifyGitHubSignature } from './webhookVerifier';
+
+const SECRET = 'webhook-secret';
+
+function sign(body: string | Buffer, secret = SECRET): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+describe('verifyGitHubSignature', () => {
+  const body = '{"ref":"refs/heads/main"}';
+
+  it('accepts the signature GitHub computes over the body', () => {
+    expect(verifyGitHubSignature(body, sign(body), SECRET)).toBe(true);
+    expect(verifyGitHubSignature(Buffer.from(body), sign(body), SECRET)).toBe(true);
+  });
+
+  it('rejects a changed body, another secret or a malformed signature', () => {
+    expect(verifyGitHubSignature(body + ' ', sign(body), SECRET)).toBe(false);
+    expect(verifyGitHubSignature(body, sign(body, 'other-secret'), SECRET)).toBe(false);
+    expect(verifyGitHubSignature(body, sign(body).replace('sha256=', 'sha1='), SECRET)).toBe(false);
+    expect(verifyGitHubSignature(body, sign(body).slice(0, -1), SECRET)).toBe(false);
+  });
+
+  it('rejects missing input', () => {
+    expect(verifyGitHubSignature('', sign(''), SECRET)).toBe(false);
+    expect(verifyGitHubSignature(body, '', SECRET)).toBe(false);
+    expect(verifyGitHubSignature(body, sign(body), '')).toBe(false);
+  });
+});
+
+describe('signature verification against the raw request body', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    // Same body parsers as server.ts
+    const app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
+    app.post(['/webhook/github', '/other'], (req, res) => {
+      const signature = req.headers['x-hub-signature-256'] as string;
+      res.json({
+        captured: req.rawBody !== undefined,
+        valid: verifyGitHubSignature(req.rawBody || '', signature, SECRET),
+        reserializedValid: verifyGitHubSignature(JSON.stringify(req.body), signature, SECRET),
+      });
+    });
+
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  async function post(path: string, body: string, contentType: string, signature = sign(body)) {
+    const response = await fetch(baseUrl + path, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType, 'X-Hub-Signature-256': signature },
+      body,
+    });
+    return response.json();
+  }
+
+  it('verifies JSON bodies as sent, whatever their formatting and key order', async () => {
+    const body = '{\n  "zen": "Keep it simple.",\n  "hook_id": 1,\n  "emoji": "\\u2728"\n}';
+    const result = await post('/webhook/github', body, 'application/json');
+
+    expect(result).toEqual({ captured: true, valid: true, reserializedValid: false });
+  });
+
+  it('verifies form-encoded bodies as sent', async () => {
+    const body = 'payload=' + encodeURIComponent('{"ref":"refs/heads/main"}');
+    const result = await post('/webhook/github', body, 'application/x-www-form-urlencoded');
+
+    expect(result).toMatchObject({ captured: true, valid: true });
+  });
+
+  it('rejects a body that does not match the signature', async () => {
+    const body = '{"ref":"refs/heads/main"}';
+    const result = await post(
+      '/webhook/github',
+      body,
+      'application/json',
+      sign('{"ref":"refs/heads/evil"}')
+    );
+
+    expect(result).toMatchObject({ captured: true, valid: false });
+  });
+
+  it('only keeps raw bodies for webhook routes', async () => {
+    const body = '{"ref":"refs/heads/main"}';
+    const result = await post('/other', body, 'application/json');
+
+    expect(result).toMatchObject({ captured: false, valid: false });
+  });
+});
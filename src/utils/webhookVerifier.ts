@@ -3,13 +3,17 @@ import crypto from 'crypto';
 /**
  * Verifies a GitHub webhook signature using HMAC-SHA256.
  * 
- * @param payload - The request body as a string.
+ * @param payload - The raw request body, exactly as received.
  * @param signature - The signature from the X-Hub-Signature-256 header.
  * @param secret - The webhook secret.
  * @returns true if the signature is valid, false otherwise.
  */
-export function verifyGitHubSignature(payload: string, signature: string, secret: string): boolean {
-  if (!payload || !signature || !secret) {
+export function verifyGitHubSignature(
+  payload: string | Buffer,
+  signature: string,
+  secret: string
+): boolean {
+  if (!payload || payload.length === 0 || !signature || !secret) {
     return false;
   }
 